@@ -0,0 +1,276 @@
+import { describe, expect, it, vi } from "vitest";
+import { satisfiesVersion, toServerCapabilities } from "./capabilities";
+import { DServerClient } from "./client";
+import {
+  DServerError,
+  MongoQueryRequest,
+  NotFoundError,
+  PluginNotAvailableError,
+  ServerVersions,
+} from "./types";
+
+const VERSIONS: ServerVersions = {
+  dservercore: "0.20.0",
+  dserver_search_plugin_mongo: "0.3.1",
+  dserver_dependency_graph_plugin: "0.2.0.dev4",
+};
+
+/**
+ * Client whose server reports `versions` and answers every other request
+ * with a 404
+ */
+function createClient(versions: ServerVersions = VERSIONS) {
+  const fetch = vi.fn<Parameters<typeof globalThis.fetch>, Promise<Response>>(
+    async (input) =>
+      String(input).endsWith("/config/versions")
+        ? Response.json({ versions })
+        : new Response("Not found", { status: 404 })
+  );
+  const client = new DServerClient({
+    baseUrl: "http://dserver",
+    fetch,
+    retry: false,
+  });
+  const versionRequests = () =>
+    fetch.mock.calls.filter(([input]) =>
+      String(input).endsWith("/config/versions")
+    ).length;
+  return { client, fetch, versionRequests };
+}
+
+describe("satisfiesVersion", () => {
+  it.each([
+    ["0.3.1", ">=0.3.0 <1.0.0", true],
+    ["1.0.0", ">=0.3.0 <1.0.0", false],
+    ["0.2.9", ">=0.3.0", false],
+    ["0.4.0.dev2", ">=0.4.0", true],
+    ["v1.2", "1.2.0", true],
+    ["1.2.1", "=1.2", false],
+    ["2.0.0", ">1.9.9 <=2.0.0", true],
+  ])("%s in %s is %s", (version, range, expected) => {
+    expect(satisfiesVersion(version, range)).toBe(expected);
+  });
+
+  it("rejects ranges it cannot parse", () => {
+    expect(() => satisfiesVersion("1.0.0", "~1.0")).toThrow(DServerError);
+  });
+});
+
+describe("toServerCapabilities", () => {
+  it("reports each feature with its plugin and version", () => {
+    const { versions, features } = toServerCapabilities(VERSIONS);
+
+    expect(versions).toEqual(VERSIONS);
+    expect(features.search).toEqual({
+      plugin: "dserver_search_plugin_mongo",
+      available: true,
+      version: "0.3.1",
+    });
+    expect(features["signed-urls"]).toEqual({
+      plugin: "dserver_signed_url_plugin",
+      available: false,
+    });
+  });
+});
+
+describe("DServerClient capabilities", () => {
+  it("caches the capabilities per client until refreshed", async () => {
+    const { client, versionRequests } = createClient();
+
+    await Promise.all([client.getCapabilities(), client.getCapabilities()]);
+    await client.supports("search");
+    expect(versionRequests()).toBe(1);
+
+    await client.getCapabilities({ refresh: true });
+    expect(versionRequests()).toBe(2);
+  });
+
+  it("keeps a separate cache for each client", async () => {
+    const first = createClient();
+    const second = createClient({});
+
+    await first.client.getCapabilities();
+
+    expect(await second.client.supports("search")).toBe(false);
+    expect(second.versionRequests()).toBe(1);
+  });
+
+  it("does not cache a failed request", async () => {
+    const { client, fetch } = createClient();
+    fetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+    await expect(client.getCapabilities()).rejects.toThrow("Failed to fetch");
+    await expect(client.getCapabilities()).resolves.toMatchObject({
+      versions: VERSIONS,
+    });
+  });
+
+  it("checks features and version ranges", async () => {
+    const { client } = createClient();
+
+    expect(await client.supports("search")).toBe(true);
+    expect(await client.supports("search", ">=0.3.0 <0.4.0")).toBe(true);
+    expect(await client.supports("search", ">=0.4.0")).toBe(false);
+    expect(await client.supports("notifications")).toBe(false);
+  });
+
+  it("requires features", async () => {
+    const { client } = createClient();
+
+    await expect(client.requireFeature("search")).resolves.toBeUndefined();
+    await expect(client.requireFeature("direct-mongo")).rejects.toMatchObject({
+      name: "PluginNotAvailableError",
+      plugin: "dserver_direct_mongo_plugin",
+    });
+    await expect(client.requireFeature("search", ">=1.0.0")).rejects.toThrow(
+      "Server plugin dserver_search_plugin_mongo 0.3.1 does not satisfy >=1.0.0"
+    );
+  });
+
+  it("raises PluginNotAvailableError for a 404 without the plugin", async () => {
+    const { client } = createClient();
+
+    const error = await client
+      .getDatasetSignedUrls("s3://bucket/uuid")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PluginNotAvailableError);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect((error as PluginNotAvailableError).plugin).toBe(
+      "dserver_signed_url_plugin"
+    );
+  });
+
+  it("keeps NotFoundError for a 404 with the plugin installed", async () => {
+    const { client } = createClient();
+
+    const error = await client
+      .getDependencyGraph("1a1f9fad-8589-413e-9602-5bbd66bfe675")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).not.toBeInstanceOf(PluginNotAvailableError);
+  });
+
+  it("keeps NotFoundError if the versions cannot be fetched", async () => {
+    const fetch = vi.fn<Parameters<typeof globalThis.fetch>, Promise<Response>>(
+      async () => new Response("Not found", { status: 404 })
+    );
+    const client = new DServerClient({
+      baseUrl: "http://dserver",
+      fetch,
+      retry: false,
+    });
+
+    const error = await client
+      .getDatasetSignedUrls("s3://bucket/uuid")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).not.toBeInstanceOf(PluginNotAvailableError);
+  });
+});
+
+describe("direct Mongo queries", () => {
+  const MONGO_VERSIONS = {
+    ...VERSIONS,
+    dserver_direct_mongo_plugin: "0.2.0",
+  };
+
+  /**
+   * Client whose server answers the Mongo routes if `versions` lists the
+   * direct Mongo plugin, and 404 otherwise
+   */
+  function mongoClient(versions: ServerVersions) {
+    const fetch = vi.fn<Parameters<typeof globalThis.fetch>, Promise<Response>>(
+      async (input) => {
+        const url = String(input);
+        if (url.endsWith("/config/versions")) {
+          return Response.json({ versions });
+        }
+        if (url.includes("/mongo/") && versions.dserver_direct_mongo_plugin) {
+          return Response.json([{ uri: "s3://bucket/uuid" }], {
+            headers: {
+              "X-Pagination": JSON.stringify({ total: 3, page: 2, pages: 3 }),
+            },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      }
+    );
+    const client = new DServerClient({
+      baseUrl: "http://dserver",
+      fetch,
+      retry: false,
+    });
+    const mongoRequests = () =>
+      fetch.mock.calls
+        .filter(([input]) => String(input).includes("/mongo/"))
+        .map(([input, init]) => ({
+          url: String(input),
+          method: init?.method,
+          body: JSON.parse(String(init?.body)),
+        }));
+    return { client, mongoRequests };
+  }
+
+  it("sends the filter and projection of mongoQuery", async () => {
+    const { client, mongoRequests } = mongoClient(MONGO_VERSIONS);
+    const request: MongoQueryRequest = {
+      query: { "readme.project": "battery-aging", tags: "raw" },
+      projection: { uri: 1, "readme.project": 1 },
+    };
+
+    const result = await client.mongoQuery(request, {
+      page: 2,
+      page_size: 1,
+    });
+
+    expect(result).toEqual({
+      data: [{ uri: "s3://bucket/uuid" }],
+      pagination: { total: 3, page: 2, per_page: 1, pages: 3 },
+    });
+    expect(mongoRequests()).toEqual([
+      {
+        url: "http://dserver/mongo/query?page=2&page_size=1",
+        method: "POST",
+        body: request,
+      },
+    ]);
+  });
+
+  it("sends the pipeline of mongoAggregate", async () => {
+    const { client, mongoRequests } = mongoClient(MONGO_VERSIONS);
+    const pipeline = [
+      { $match: { "annotations.instrument": { $exists: true } } },
+      { $group: { _id: "$annotations.instrument", count: { $sum: 1 } } },
+    ];
+
+    await client.mongoAggregate(pipeline);
+
+    expect(mongoRequests()).toEqual([
+      {
+        url: "http://dserver/mongo/aggregate",
+        method: "POST",
+        body: { aggregation: pipeline },
+      },
+    ]);
+  });
+
+  it.each<[string, (client: DServerClient) => Promise<unknown>]>([
+    ["mongoQuery", (client) => client.mongoQuery({ query: {} })],
+    ["mongoAggregate", (client) => client.mongoAggregate([])],
+  ])(
+    "raises PluginNotAvailableError from %s without the plugin",
+    async (_, call) => {
+      const { client } = mongoClient(VERSIONS);
+
+      const error = await call(client).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(PluginNotAvailableError);
+      expect((error as PluginNotAvailableError).plugin).toBe(
+        "dserver_direct_mongo_plugin"
+      );
+    }
+  );
+});
@@ -0,0 +1,86 @@
+/**
+ * Server features provided by optional plugins, and version checks
+ */
+
+import {
+  DServerError,
+  ServerCapabilities,
+  ServerFeature,
+  ServerVersions,
+} from "./types";
+
+/**
+ * Plugin that provides each server feature, as named in `ServerVersions`
+ */
+export const SERVER_FEATURE_PLUGINS: Readonly<Record<ServerFeature, string>> = {
+  search: "dserver_search_plugin_mongo",
+  retrieve: "dserver_retrieve_plugin_mongo",
+  "direct-mongo": "dserver_direct_mongo_plugin",
+  "signed-urls": "dserver_signed_url_plugin",
+  "dependency-graph": "dserver_dependency_graph_plugin",
+  notifications: "dserver_notification_plugin",
+};
+
+/**
+ * Derive the capabilities of a server from the versions it reports
+ */
+export function toServerCapabilities(
+  versions: ServerVersions
+): ServerCapabilities {
+  const features = {} as ServerCapabilities["features"];
+  for (const [feature, plugin] of Object.entries(SERVER_FEATURE_PLUGINS)) {
+    const version = versions[plugin];
+    features[feature as ServerFeature] = {
+      plugin,
+      available: version !== undefined,
+      ...(version !== undefined && { version }),
+    };
+  }
+  return { versions: { ...versions }, features };
+}
+
+/**
+ * Check a version against a range of space-separated comparators, e.g.
+ * ">=0.3.0 <1.0.0". A bare version must match exactly. Only the numeric
+ * release part is compared, so "0.4.0.dev2" satisfies ">=0.4.0".
+ *
+ * @throws DServerError if the range cannot be parsed
+ */
+export function satisfiesVersion(version: string, range: string): boolean {
+  const actual = releaseNumbers(version);
+  return range
+    .trim()
+    .split(/\s+/)
+    .every((comparator) => {
+      const match = /^(>=|<=|>|<|=)?(\d.*)$/.exec(comparator);
+      if (!match) {
+        throw new DServerError(`Invalid version range ${range}`);
+      }
+      const order = compareNumbers(actual, releaseNumbers(match[2]));
+      switch (match[1] ?? "=") {
+        case ">=":
+          return order >= 0;
+        case "<=":
+          return order <= 0;
+        case ">":
+          return order > 0;
+        case "<":
+          return order < 0;
+        default:
+          return order === 0;
+      }
+    });
+}
+
+function releaseNumbers(version: string): number[] {
+  const release = /^v?(\d+(?:\.\d+)*)/.exec(version.trim());
+  return release ? release[1].split(".").map(Number) : [];
+}
+
+function compareNumbers(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) return Math.sign(difference);
+  }
+  return 0;
+}
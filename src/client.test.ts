@@ -0,0 +1,2352 @@
+import { createHash } from "node:crypto";
+import { Readable } from "node:stream";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DServerClient } from "./client";
+import { MemoryJournalStore } from "./journal";
+import { parseReadme } from "./readme";
+import {
+  AuthenticationError,
+  DatasetSignedURLsResponse,
+  DServerClientConfig,
+  DServerError,
+  FileToUpload,
+  FileValidationError,
+  IntegrityError,
+  Manifest,
+  ManifestItem,
+  MultipartCompleteRequest,
+  NotFoundError,
+  SignedURLExpiredError,
+  UploadIncompleteError,
+  UploadJournal,
+  UploadPartURL,
+  UploadProgressEvent,
+  UploadRequest,
+  UploadURLs,
+  UploadURLsResponse,
+} from "./types";
+import { generateIdentifier } from "./utils";
+
+/**
+ * fetch mock answering each request through `handler`
+ */
+function mockFetch(
+  handler: (url: string, init: RequestInit) => Response | Promise<Response>
+) {
+  return vi.fn<Parameters<typeof fetch>, Promise<Response>>(
+    async (input, init = {}) => handler(String(input), init)
+  );
+}
+
+function createClient(
+  fetch: typeof globalThis.fetch,
+  config: Partial<DServerClientConfig> = {}
+): DServerClient {
+  return new DServerClient({ baseUrl: "http://dserver", fetch, ...config });
+}
+
+const md5 = (content: string | Uint8Array) =>
+  createHash("md5").update(content).digest("hex");
+
+const VERSIONS = { dservercore: "0.20.0" };
+
+/**
+ * Signed URLs of a dataset whose files are served from https://storage/
+ */
+function signedUrls(
+  identifiers: string[] = [],
+  expiresIn = 3600
+): DatasetSignedURLsResponse {
+  return {
+    uri: "s3://bucket/uuid",
+    expiry_seconds: expiresIn,
+    expiry_timestamp: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    admin_metadata_url: "https://storage/dtool",
+    manifest_url: "https://storage/manifest.json",
+    readme_url: "https://storage/README.yml",
+    item_urls: Object.fromEntries(
+      identifiers.map((identifier) => [
+        identifier,
+        `https://storage/data/${identifier}`,
+      ])
+    ),
+    overlay_urls: {},
+    annotation_urls: {},
+    tags: [],
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("retry policy", () => {
+  it.each([429, 502, 503, 504])(
+    "retries idempotent calls answered with %i",
+    async (status) => {
+      const fetch = mockFetch(() => Response.json({ versions: VERSIONS }));
+      fetch.mockResolvedValueOnce(new Response(null, { status }));
+      const client = createClient(fetch, { retry: { initialDelay: 1 } });
+
+      await expect(client.getServerVersions()).resolves.toEqual(VERSIONS);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    }
+  );
+
+  it("retries network errors", async () => {
+    const fetch = mockFetch(() => Response.json({ versions: VERSIONS }));
+    fetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    const client = createClient(fetch, { retry: { initialDelay: 1 } });
+
+    await expect(client.getServerVersions()).resolves.toEqual(VERSIONS);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const fetch = mockFetch(() => new Response(null, { status: 503 }));
+    const client = createClient(fetch, {
+      retry: { initialDelay: 1, maxRetries: 2 },
+    });
+
+    await expect(client.getServerVersions()).rejects.toMatchObject({
+      status: 503,
+    });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry other status codes", async () => {
+    const fetch = mockFetch(() => new Response(null, { status: 500 }));
+    const client = createClient(fetch, { retry: { initialDelay: 1 } });
+
+    await expect(client.getServerVersions()).rejects.toThrow(DServerError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it.each<[string, (client: DServerClient) => Promise<unknown>]>([
+    ["setTags", (client) => client.setTags("s3://b/u", [], { retry: false })],
+    [
+      "setReadme",
+      (client) => client.setReadme("s3://b/u", "", { retry: false }),
+    ],
+    [
+      "setAnnotations",
+      (client) => client.setAnnotations("s3://b/u", {}, { retry: false }),
+    ],
+  ])("lets %s override the policy per call", async (_, call) => {
+    const fetch = mockFetch(() => new Response(null, { status: 503 }));
+    const client = createClient(fetch, { retry: { initialDelay: 1 } });
+
+    await expect(call(client)).rejects.toMatchObject({ status: 503 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry calls that are not idempotent", async () => {
+    const fetch = mockFetch(() => new Response(null, { status: 503 }));
+    const client = createClient(fetch, { retry: { initialDelay: 1 } });
+
+    await expect(
+      client.signalUploadComplete("s3://bucket/uuid")
+    ).rejects.toMatchObject({ status: 503 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    vi.useFakeTimers();
+    const fetch = mockFetch(() => Response.json({ versions: VERSIONS }));
+    fetch.mockResolvedValueOnce(
+      new Response(null, { status: 429, headers: { "Retry-After": "2" } })
+    );
+    const client = createClient(fetch, { retry: { initialDelay: 10 } });
+
+    const versions = client.getServerVersions();
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await expect(versions).resolves.toEqual(VERSIONS);
+  });
+
+  it("returns the failure if Retry-After exceeds maxDelay", async () => {
+    const fetch = mockFetch(
+      () =>
+        new Response(null, { status: 503, headers: { "Retry-After": "3600" } })
+    );
+    const client = createClient(fetch, { retry: { initialDelay: 1 } });
+
+    await expect(client.getServerVersions()).rejects.toMatchObject({
+      status: 503,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets each call override the client's policy", async () => {
+    const fetch = mockFetch(() => new Response(null, { status: 503 }));
+    const client = createClient(fetch, { retry: false });
+
+    await expect(client.getServerVersions()).rejects.toThrow(DServerError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await expect(
+      client.getServerVersions({ retry: { initialDelay: 1, maxRetries: 1 } })
+    ).rejects.toThrow(DServerError);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    const retrying = createClient(fetch, { retry: { initialDelay: 1 } });
+    await expect(retrying.getServerVersions({ retry: false })).rejects.toThrow(
+      DServerError
+    );
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("stops waiting when the call is aborted", async () => {
+    const fetch = mockFetch(() => new Response(null, { status: 503 }));
+    const client = createClient(fetch, { retry: { initialDelay: 60000 } });
+    const controller = new AbortController();
+
+    const versions = client.getServerVersions({ signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    controller.abort(new Error("stopped"));
+
+    await expect(versions).rejects.toThrow("stopped");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries signed-URL downloads", async () => {
+    const manifest: Manifest = {
+      dtoolcore_version: "3.18.0",
+      hash_function: "md5sum_hexdigest",
+      items: {},
+    };
+    const fetch = mockFetch(() => Response.json(manifest));
+    fetch.mockResolvedValueOnce(new Response(null, { status: 502 }));
+    const client = createClient(fetch, { retry: { initialDelay: 1 } });
+
+    await expect(client.downloadManifest(signedUrls())).resolves.toEqual(
+      manifest
+    );
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[1][0]).toBe("https://storage/manifest.json");
+  });
+});
+
+/**
+ * Response body delivering `chunks` one read at a time. Like a fetch body,
+ * it errors with the abort reason when `signal` is aborted.
+ */
+function chunkedBody(
+  chunks: Uint8Array[],
+  signal?: AbortSignal | null
+): ReadableStream<Uint8Array> {
+  const queue = [...chunks];
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      signal?.addEventListener("abort", () => controller.error(signal.reason));
+    },
+    pull(controller) {
+      const chunk = queue.shift();
+      if (chunk) {
+        controller.enqueue(chunk);
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return text + decoder.decode();
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+const encoder = new TextEncoder();
+
+describe("token refresh", () => {
+  /**
+   * fetch mock accepting only requests that carry `valid` as bearer token
+   */
+  function authFetch(valid: () => string) {
+    return mockFetch((_, init) =>
+      new Headers(init.headers).get("Authorization") === `Bearer ${valid()}`
+        ? Response.json({ versions: VERSIONS })
+        : Response.json({ error: "token expired" }, { status: 401 })
+    );
+  }
+
+  it("refreshes the token on 401 and replays the request", async () => {
+    const fetch = authFetch(() => "new");
+    const refreshToken = vi.fn(async () => "new");
+    const client = createClient(fetch, { token: "old", refreshToken });
+
+    await expect(client.getServerVersions()).resolves.toEqual(VERSIONS);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    // The refreshed token is used from now on
+    await client.getServerVersions();
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("shares one refresh between concurrent 401s", async () => {
+    const fetch = authFetch(() => "new");
+    let finish!: (token: string) => void;
+    const refreshToken = vi.fn(
+      () => new Promise<string>((resolve) => (finish = resolve))
+    );
+    const client = createClient(fetch, { token: "old", refreshToken });
+
+    const calls = Promise.all([
+      client.getServerVersions(),
+      client.getServerVersions(),
+      client.getServerVersions(),
+    ]);
+    await vi.waitFor(() => expect(refreshToken).toHaveBeenCalled());
+    finish("new");
+
+    expect(await calls).toEqual([VERSIONS, VERSIONS, VERSIONS]);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+
+  it("asks a token provider again after the refresh", async () => {
+    let current = "old";
+    const fetch = authFetch(() => "new");
+    const refreshToken = vi.fn(async () => {
+      current = "new";
+    });
+    const client = createClient(fetch, { token: () => current, refreshToken });
+
+    await expect(client.getServerVersions()).resolves.toEqual(VERSIONS);
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("replays the request only once", async () => {
+    const fetch = authFetch(() => "never");
+    const refreshToken = vi.fn(async () => "new");
+    const client = createClient(fetch, { token: "old", refreshToken });
+
+    await expect(client.getServerVersions()).rejects.toThrow(
+      AuthenticationError
+    );
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails with the error of a failed refresh", async () => {
+    const fetch = authFetch(() => "new");
+    const refreshToken = vi
+      .fn(async () => "new")
+      .mockRejectedValueOnce(new Error("session ended"));
+    const client = createClient(fetch, { token: "old", refreshToken });
+
+    await expect(client.getServerVersions()).rejects.toThrow("session ended");
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    // A later 401 tries to refresh again
+    await expect(client.getServerVersions()).resolves.toEqual(VERSIONS);
+    expect(refreshToken).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not refresh without a refresh callback", async () => {
+    const fetch = authFetch(() => "new");
+    const client = createClient(fetch, { token: "old" });
+
+    await expect(client.getServerVersions()).rejects.toMatchObject({
+      status: 401,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("streamItem", () => {
+  it("streams the item as it is received", async () => {
+    const pulls: number[] = [];
+    const fetch = mockFetch(() => {
+      let sent = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulls.push(sent);
+          if (sent < 3) {
+            controller.enqueue(encoder.encode(`chunk${sent++};`));
+          } else {
+            controller.close();
+          }
+        },
+      });
+      return new Response(body);
+    });
+    const client = createClient(fetch);
+
+    const stream = await client.streamItem(signedUrls(["a"]), "a");
+    const reader = stream.getReader();
+    const first = await reader.read();
+
+    expect(new TextDecoder().decode(first.value)).toBe("chunk0;");
+    expect(pulls.length).toBeLessThan(4);
+    reader.releaseLock();
+    expect(await readAll(stream)).toBe("chunk1;chunk2;");
+    expect(fetch.mock.calls[0][0]).toBe("https://storage/data/a");
+  });
+
+  it("reports progress as chunks are read", async () => {
+    const fetch = mockFetch(
+      () =>
+        new Response(
+          chunkedBody([encoder.encode("abc"), encoder.encode("defg")]),
+          { headers: { "Content-Length": "7" } }
+        )
+    );
+    const client = createClient(fetch);
+    const onProgress = vi.fn();
+
+    const stream = await client.streamItem(signedUrls(["a"]), "a", {
+      onProgress,
+    });
+
+    expect(onProgress).not.toHaveBeenCalled();
+    expect(await readAll(stream)).toBe("abcdefg");
+    expect(onProgress.mock.calls).toEqual([
+      [3, 7, "a"],
+      [7, 7, "a"],
+    ]);
+  });
+
+  it("errors the stream when the signal is aborted", async () => {
+    const fetch = mockFetch(
+      (_url, init) =>
+        new Response(
+          chunkedBody(
+            [encoder.encode("abc"), encoder.encode("def")],
+            init.signal
+          )
+        )
+    );
+    const client = createClient(fetch);
+    const controller = new AbortController();
+
+    const stream = await client.streamItem(signedUrls(["a"]), "a", {
+      signal: controller.signal,
+    });
+    const reader = stream.getReader();
+    await reader.read();
+    controller.abort(new Error("stopped"));
+
+    await expect(reader.read()).rejects.toThrow("stopped");
+  });
+
+  it("cancels the download when the stream is cancelled", async () => {
+    const cancel = vi.fn();
+    const fetch = mockFetch(
+      () =>
+        new Response(
+          new ReadableStream({
+            pull(controller) {
+              controller.enqueue(encoder.encode("abc"));
+            },
+            cancel,
+          })
+        )
+    );
+    const client = createClient(fetch);
+
+    const stream = await client.streamItem(signedUrls(["a"]), "a");
+    await stream.cancel("done");
+
+    expect(cancel).toHaveBeenCalledWith("done");
+  });
+
+  it("is read into a buffer by downloadItem", async () => {
+    const fetch = mockFetch(
+      () =>
+        new Response(chunkedBody([encoder.encode("abc"), encoder.encode("d")]))
+    );
+    const client = createClient(fetch);
+
+    const buffer = await client.downloadItem(signedUrls(["a"]), "a");
+
+    expect(new TextDecoder().decode(buffer)).toBe("abcd");
+  });
+
+  it("rejects unknown items", async () => {
+    const client = createClient(mockFetch(() => new Response("")));
+
+    await expect(client.streamItem(signedUrls(["a"]), "b")).rejects.toThrow(
+      "Item b not found in dataset"
+    );
+  });
+});
+
+/**
+ * Answer a storage GET for `content`, honouring its Range header like S3
+ */
+function serveRange(
+  content: string | Uint8Array<ArrayBuffer>,
+  init: RequestInit
+): Response {
+  const bytes = typeof content === "string" ? encoder.encode(content) : content;
+  const range = /^bytes=(\d+)-(\d*)$/.exec(
+    new Headers(init.headers).get("Range") ?? ""
+  );
+  if (!range) {
+    return new Response(bytes, {
+      headers: { "Content-Length": String(bytes.length) },
+    });
+  }
+  const start = Number(range[1]);
+  const end = range[2] ? Number(range[2]) + 1 : bytes.length;
+  return new Response(bytes.slice(start, end), {
+    status: 206,
+    headers: {
+      "Content-Length": String(end - start),
+      "Content-Range": `bytes ${start}-${end - 1}/${bytes.length}`,
+    },
+  });
+}
+
+/**
+ * Response sending `head` and then failing like a dropped connection
+ */
+function interruptedResponse(head: string, length: number): Response {
+  let sent = false;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent) {
+        controller.error(new TypeError("terminated"));
+      } else {
+        sent = true;
+        controller.enqueue(encoder.encode(head));
+      }
+    },
+  });
+  return new Response(body, {
+    headers: { "Content-Length": String(length) },
+  });
+}
+
+const rangeOf = (init: RequestInit | undefined) =>
+  new Headers(init?.headers).get("Range");
+
+describe("byte ranges and resumed downloads", () => {
+  const content = "0123456789abcdefghij";
+
+  it("requests a byte range", async () => {
+    const fetch = mockFetch((_url, init) => serveRange(content, init));
+    const client = createClient(fetch);
+
+    const buffer = await client.downloadItem(signedUrls(["a"]), "a", {
+      range: { start: 10, end: 14 },
+    });
+
+    expect(new TextDecoder().decode(buffer)).toBe("abcd");
+    expect(rangeOf(fetch.mock.calls[0][1])).toBe("bytes=10-13");
+  });
+
+  it("requests the rest of an item from an offset", async () => {
+    const fetch = mockFetch((_url, init) => serveRange(content, init));
+    const client = createClient(fetch);
+
+    const stream = await client.streamItem(signedUrls(["a"]), "a", {
+      range: { start: 16 },
+    });
+
+    expect(await readAll(stream)).toBe("ghij");
+    expect(rangeOf(fetch.mock.calls[0][1])).toBe("bytes=16-");
+  });
+
+  it("does not send a Range header for the whole item", async () => {
+    const fetch = mockFetch((_url, init) => serveRange(content, init));
+    const client = createClient(fetch);
+
+    await client.downloadItem(signedUrls(["a"]), "a", {
+      range: { start: 0 },
+    });
+
+    expect(rangeOf(fetch.mock.calls[0][1])).toBeNull();
+  });
+
+  it("cuts the range locally when storage ignores Range", async () => {
+    const fetch = mockFetch(
+      () =>
+        new Response(
+          chunkedBody([
+            encoder.encode(content.slice(0, 8)),
+            encoder.encode(content.slice(8)),
+          ])
+        )
+    );
+    const client = createClient(fetch);
+    const onProgress = vi.fn();
+
+    const buffer = await client.downloadItem(signedUrls(["a"]), "a", {
+      range: { start: 6, end: 12 },
+      onProgress,
+    });
+
+    expect(new TextDecoder().decode(buffer)).toBe("6789ab");
+    expect(onProgress).toHaveBeenLastCalledWith(6, 6, "a");
+  });
+
+  it("resumes an interrupted download from the last received byte", async () => {
+    const fetch = mockFetch((_url, init) => serveRange(content, init));
+    fetch.mockResolvedValueOnce(interruptedResponse("0123", content.length));
+    const client = createClient(fetch);
+
+    const buffer = await client.downloadItem(signedUrls(["a"]), "a", {
+      resumeAttempts: 1,
+    });
+
+    expect(new TextDecoder().decode(buffer)).toBe(content);
+    expect(rangeOf(fetch.mock.calls[1][1])).toBe("bytes=4-");
+  });
+
+  it("resumes a range when the body ends early", async () => {
+    const fetch = mockFetch((_url, init) => serveRange(content, init));
+    fetch.mockResolvedValueOnce(
+      new Response("abc", { status: 206, headers: { "Content-Length": "6" } })
+    );
+    const client = createClient(fetch);
+
+    const buffer = await client.downloadItem(signedUrls(["a"]), "a", {
+      range: { start: 10, end: 16 },
+      resumeAttempts: 1,
+    });
+
+    expect(new TextDecoder().decode(buffer)).toBe("abcdef");
+    expect(rangeOf(fetch.mock.calls[1][1])).toBe("bytes=13-15");
+  });
+
+  it("skips resent bytes when storage ignores Range on resume", async () => {
+    const fetch = mockFetch(() => new Response(content));
+    fetch.mockResolvedValueOnce(interruptedResponse("01234", content.length));
+    const client = createClient(fetch);
+
+    const buffer = await client.downloadItem(signedUrls(["a"]), "a", {
+      resumeAttempts: 1,
+    });
+
+    expect(new TextDecoder().decode(buffer)).toBe(content);
+  });
+
+  it("fails once the resume attempts are used up", async () => {
+    const fetch = mockFetch(() => interruptedResponse("01", content.length));
+    const client = createClient(fetch);
+
+    await expect(
+      client.downloadItem(signedUrls(["a"]), "a", { resumeAttempts: 2 })
+    ).rejects.toThrow("terminated");
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    fetch.mockClear();
+    await expect(client.downloadItem(signedUrls(["a"]), "a")).rejects.toThrow(
+      "terminated"
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails when the body ends early and no resumes are left", async () => {
+    const fetch = mockFetch(
+      () => new Response("01234", { headers: { "Content-Length": "10" } })
+    );
+    const client = createClient(fetch);
+
+    await expect(
+      client.downloadItem(signedUrls(["a"]), "a", { resumeAttempts: 0 })
+    ).rejects.toThrow("Download of item a ended after 5 of 10 bytes");
+    await expect(
+      readAll(
+        await client.streamItem(signedUrls(["a"]), "a", { resumeAttempts: 0 })
+      )
+    ).rejects.toThrow(DServerError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("downloads ranges through a single-item signed URL", async () => {
+    const fetch = mockFetch((_url, init) => serveRange(content, init));
+    const client = createClient(fetch);
+
+    const buffer = await client.downloadItem(
+      {
+        uri: "s3://bucket/uuid",
+        identifier: "a",
+        expiry_seconds: 3600,
+        expiry_timestamp: new Date(Date.now() + 3600000).toISOString(),
+        url: "https://storage/item",
+      },
+      "a",
+      { range: { start: 0, end: 3 } }
+    );
+
+    expect(new TextDecoder().decode(buffer)).toBe("012");
+    expect(fetch.mock.calls[0][0]).toBe("https://storage/item");
+  });
+});
+
+describe("download verification", () => {
+  const content = "frozen bytes";
+  const manifest = (
+    item: Partial<ManifestItem> = {},
+    hashFunction = "md5sum_hexdigest"
+  ): Manifest => ({
+    dtoolcore_version: "3.18.0",
+    hash_function: hashFunction,
+    items: {
+      a: {
+        relpath: "data/a.txt",
+        size_in_bytes: content.length,
+        hash: md5(content),
+        utc_timestamp: 1700000000,
+        ...item,
+      },
+    },
+  });
+
+  it("passes items matching the manifest", async () => {
+    const client = createClient(mockFetch(() => new Response(content)));
+
+    const buffer = await client.downloadItem(signedUrls(["a"]), "a", {
+      verify: manifest(),
+    });
+
+    expect(new TextDecoder().decode(buffer)).toBe(content);
+  });
+
+  it("throws an IntegrityError on a size mismatch", async () => {
+    const client = createClient(mockFetch(() => new Response(content)));
+
+    const error = await client
+      .downloadItem(signedUrls(["a"]), "a", {
+        verify: manifest({ size_in_bytes: 100 }),
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(IntegrityError);
+    expect(error).toMatchObject({
+      identifier: "a",
+      expected: 100,
+      actual: content.length,
+    });
+  });
+
+  it("throws an IntegrityError on a hash mismatch", async () => {
+    const client = createClient(
+      mockFetch(() => new Response(content.toUpperCase()))
+    );
+
+    const stream = await client.streamItem(signedUrls(["a"]), "a", {
+      verify: manifest(),
+    });
+    const error = await readAll(stream).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(IntegrityError);
+    expect(error).toMatchObject({
+      identifier: "a",
+      expected: md5(content),
+      actual: md5(content.toUpperCase()),
+    });
+  });
+
+  it("downloads the manifest with verify: true", async () => {
+    const fetch = mockFetch((url) =>
+      url.endsWith("manifest.json")
+        ? Response.json(manifest({ hash: md5("other") }))
+        : new Response(content)
+    );
+    const client = createClient(fetch);
+
+    await expect(
+      client.downloadItem(signedUrls(["a"]), "a", { verify: true })
+    ).rejects.toThrow(IntegrityError);
+    expect(fetch.mock.calls.map(([url]) => url)).toContain(
+      "https://storage/manifest.json"
+    );
+  });
+
+  it("follows the manifest's hash function", async () => {
+    const client = createClient(mockFetch(() => new Response(content)));
+
+    await expect(
+      client.downloadItem(signedUrls(["a"]), "a", {
+        verify: manifest({}, "sha256sum_hexdigest"),
+      })
+    ).rejects.toThrow(
+      "Unsupported hash function for verification: sha256sum_hexdigest"
+    );
+  });
+
+  it("cannot verify byte ranges", async () => {
+    const client = createClient(mockFetch(() => new Response(content)));
+
+    await expect(
+      client.downloadItem(signedUrls(["a"]), "a", {
+        verify: manifest(),
+        range: { start: 1 },
+      })
+    ).rejects.toThrow("Cannot verify a byte range of an item");
+  });
+
+  it("needs the manifest for a single-item signed URL", async () => {
+    const client = createClient(mockFetch(() => new Response(content)));
+    const urls = {
+      uri: "s3://bucket/uuid",
+      identifier: "a",
+      expiry_seconds: 3600,
+      expiry_timestamp: new Date(Date.now() + 3600000).toISOString(),
+      url: "https://storage/item",
+    };
+
+    await expect(
+      client.downloadItem(urls, "a", { verify: true })
+    ).rejects.toThrow(DServerError);
+    await expect(
+      client.downloadItem(urls, "a", { verify: manifest() })
+    ).resolves.toBeInstanceOf(ArrayBuffer);
+  });
+});
+
+/**
+ * In-memory dserver with the signed URL plugin, and the storage behind it.
+ * Requesting upload URLs writes the admin metadata, manifest, tags and
+ * annotations, as the plugin does; the README and items are PUT by the
+ * client.
+ */
+class FakeServer {
+  /** Stored files by URL */
+  readonly storage = new Map<string, Uint8Array<ArrayBuffer>>();
+  /** All requests in the order they were sent */
+  readonly requests: Array<{
+    method: string;
+    url: string;
+    range: string | null;
+  }> = [];
+  readonly uploadRequests: UploadRequest[] = [];
+  readonly multipartCompletions: MultipartCompleteRequest[] = [];
+  /** URIs of registered datasets */
+  readonly registered: string[] = [];
+  /** Whether multipart uploads are offered for large items */
+  multipart = true;
+  /** Changes the part URLs offered for an item, e.g. to leave a gap */
+  offerParts?: (parts: UploadPartURL[]) => UploadPartURL[];
+  /** Lifetime of upload URLs in seconds */
+  expirySeconds = 3600;
+  /**
+   * Answer a request in place of the server, e.g. to make it fail; the
+   * server answers if this returns undefined
+   */
+  intercept?: (
+    method: string,
+    url: string
+  ) => Response | undefined | Promise<Response | undefined>;
+
+  readonly fetch = mockFetch((url, init) => this.handle(url, init));
+  private readonly datasets = new Map<string, UploadRequest>();
+
+  /**
+   * Store a frozen dataset whose items have the given content
+   */
+  async addDataset(
+    uri: string,
+    request: Omit<UploadRequest, "items">,
+    items: Record<string, string>,
+    readme = ""
+  ): Promise<void> {
+    const full: UploadRequest = {
+      ...request,
+      items: Object.entries(items).map(([relpath, content]) => ({
+        relpath,
+        size_in_bytes: encoder.encode(content).length,
+        hash: md5(content),
+        utc_timestamp: request.frozen_at,
+      })),
+    };
+    await this.writeMetadata(uri, full);
+    this.storage.set(this.url(uri, "README.yml"), encoder.encode(readme));
+    for (const [relpath, content] of Object.entries(items)) {
+      this.storage.set(
+        this.url(uri, `data/${await generateIdentifier(relpath)}`),
+        encoder.encode(content)
+      );
+    }
+  }
+
+  /**
+   * Content of a stored file of a dataset
+   */
+  read(uri: string, path: string): string | undefined {
+    const bytes = this.storage.get(this.url(uri, path));
+    return bytes && new TextDecoder().decode(bytes);
+  }
+
+  /**
+   * Content of a stored item of a dataset
+   */
+  async readItem(uri: string, relpath: string): Promise<string | undefined> {
+    return this.read(uri, `data/${await generateIdentifier(relpath)}`);
+  }
+
+  /**
+   * Requests to storage URLs matching `pattern`
+   */
+  storageRequests(method: string, pattern: RegExp) {
+    return this.requests.filter(
+      (request) =>
+        request.method === method &&
+        request.url.startsWith("https://storage/") &&
+        pattern.test(request.url)
+    );
+  }
+
+  private url(uri: string, path: string): string {
+    return `https://storage/${uri.replace(/^\w+:\/\//, "")}/${path}`;
+  }
+
+  private async writeMetadata(
+    uri: string,
+    request: UploadRequest
+  ): Promise<void> {
+    this.datasets.set(uri, request);
+    const json = (value: unknown) => encoder.encode(JSON.stringify(value));
+    this.storage.set(
+      this.url(uri, "dtool"),
+      json({
+        uuid: request.uuid,
+        name: request.name,
+        type: "dataset",
+        creator_username: request.creator_username,
+        frozen_at: request.frozen_at,
+      })
+    );
+    const items: Manifest["items"] = {};
+    for (const item of request.items ?? []) {
+      items[await generateIdentifier(item.relpath)] = item;
+    }
+    this.storage.set(
+      this.url(uri, "manifest.json"),
+      json({
+        dtoolcore_version: "3.18.0",
+        hash_function: "md5sum_hexdigest",
+        items,
+      })
+    );
+    for (const [name, value] of Object.entries(request.annotations ?? {})) {
+      this.storage.set(this.url(uri, `annotations/${name}.json`), json(value));
+    }
+  }
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const method = init.method ?? "GET";
+    const range = new Headers(init.headers).get("Range");
+    this.requests.push({ method, url, range });
+    const intercepted = await this.intercept?.(method, url);
+    if (intercepted) return intercepted;
+
+    if (url.startsWith("https://storage/")) {
+      if (method === "PUT") {
+        const bytes = new Uint8Array(
+          await new Response(init.body).arrayBuffer()
+        );
+        this.storage.set(url, bytes);
+        return new Response(null, { headers: { ETag: `"${md5(bytes)}"` } });
+      }
+      const bytes = this.storage.get(url);
+      return bytes
+        ? serveRange(bytes, init)
+        : new Response("NoSuchKey", { status: 404 });
+    }
+
+    const path = url.replace("http://dserver", "");
+    const body = init.body ? JSON.parse(String(init.body)) : undefined;
+    let match: RegExpExecArray | null;
+    if ((match = /^\/signed-urls\/upload\/([^/]+)$/.exec(path))) {
+      return Response.json(
+        await this.uploadUrls(decodeURIComponent(match[1]), body)
+      );
+    }
+    if (path === "/signed-urls/upload-multipart-complete") {
+      const request = body as MultipartCompleteRequest;
+      this.multipartCompletions.push(request);
+      const parts = request.parts.map(
+        ({ part_number }) =>
+          this.storage.get(
+            this.url(
+              request.uri,
+              `data/${request.identifier}?part=${part_number}`
+            )
+          ) ?? new Uint8Array()
+      );
+      this.storage.set(
+        this.url(request.uri, `data/${request.identifier}`),
+        new Uint8Array(await new Blob(parts).arrayBuffer())
+      );
+      return new Response(null, { status: 204 });
+    }
+    if (path === "/signed-urls/upload-complete") {
+      const { uri } = body as { uri: string };
+      const request = this.datasets.get(uri)!;
+      this.registered.push(uri);
+      return Response.json({
+        uri,
+        status: "registered",
+        name: request.name,
+        uuid: request.uuid,
+      });
+    }
+    if ((match = /^\/signed-urls\/dataset\/([^/]+)$/.exec(path))) {
+      const uri = decodeURIComponent(match[1]);
+      const request = this.datasets.get(uri);
+      if (!request) return new Response("Not found", { status: 404 });
+      const urls = signedUrls([], this.expirySeconds);
+      return Response.json({
+        ...urls,
+        uri,
+        admin_metadata_url: this.url(uri, "dtool"),
+        manifest_url: this.url(uri, "manifest.json"),
+        readme_url: this.url(uri, "README.yml"),
+        item_urls: Object.fromEntries(
+          await Promise.all(
+            (request.items ?? []).map(async ({ relpath }) => {
+              const identifier = await generateIdentifier(relpath);
+              return [identifier, this.url(uri, `data/${identifier}`)];
+            })
+          )
+        ),
+        annotation_urls: Object.fromEntries(
+          Object.keys(request.annotations ?? {}).map((name) => [
+            name,
+            this.url(uri, `annotations/${name}.json`),
+          ])
+        ),
+        tags: request.tags ?? [],
+      });
+    }
+    if (path === "/config/versions") {
+      return Response.json({
+        versions: { dservercore: "0.20.0", dserver_signed_url_plugin: "0.3.0" },
+      });
+    }
+    return new Response("Not found", { status: 404 });
+  }
+
+  private async uploadUrls(
+    baseUri: string,
+    request: UploadRequest
+  ): Promise<UploadURLsResponse> {
+    this.uploadRequests.push(request);
+    const uri = `${baseUri}/${request.uuid}`;
+    await this.writeMetadata(uri, request);
+    const multipart = new Set(this.multipart ? request.multipart_items : []);
+    const items: UploadURLs["items"] = {};
+    for (const item of request.items ?? []) {
+      const identifier = await generateIdentifier(item.relpath);
+      const url = this.url(uri, `data/${identifier}`);
+      const partSize = request.multipart_part_size!;
+      items[identifier] = {
+        url,
+        relpath: item.relpath,
+        ...(multipart.has(item.relpath) && {
+          multipart: {
+            upload_id: `upload-${identifier}`,
+            part_size: partSize,
+            parts: (this.offerParts ?? ((parts) => parts))(
+              Array.from(
+                { length: Math.ceil(item.size_in_bytes / partSize) },
+                (_, i) => ({ part_number: i + 1, url: `${url}?part=${i + 1}` })
+              )
+            ),
+          },
+        }),
+      };
+    }
+    return {
+      uuid: request.uuid,
+      uri,
+      base_uri: baseUri,
+      expiry_seconds: this.expirySeconds,
+      expiry_timestamp: new Date(
+        Date.now() + this.expirySeconds * 1000
+      ).toISOString(),
+      upload_urls: { readme: this.url(uri, "README.yml"), items },
+    };
+  }
+}
+
+describe("multipart uploads", () => {
+  const large = "0123456789";
+
+  it("uploads items above the threshold in parts", async () => {
+    const server = new FakeServer();
+    const client = createClient(server.fetch);
+
+    const result = await client.createDataset(
+      "s3://bucket",
+      "parts",
+      [
+        { relpath: "large.bin", content: large },
+        { relpath: "small.txt", content: "abc" },
+      ],
+      { multipartThreshold: 8, multipartPartSize: 4 }
+    );
+
+    expect(server.uploadRequests[0]).toMatchObject({
+      multipart_items: ["large.bin"],
+      multipart_part_size: 4,
+    });
+    const parts = server.storageRequests("PUT", /\?part=/);
+    expect(parts.map(({ url }) => url.split("?")[1])).toEqual([
+      "part=1",
+      "part=2",
+      "part=3",
+    ]);
+    expect(server.multipartCompletions).toEqual([
+      {
+        uri: result.uri,
+        identifier: await generateIdentifier("large.bin"),
+        upload_id: `upload-${await generateIdentifier("large.bin")}`,
+        parts: [1, 2, 3].map((part_number, i) => ({
+          part_number,
+          etag: `"${md5(large.slice(i * 4, i * 4 + 4))}"`,
+        })),
+      },
+    ]);
+    expect(await server.readItem(result.uri, "large.bin")).toBe(large);
+    expect(await server.readItem(result.uri, "small.txt")).toBe("abc");
+    expect(server.storageRequests("PUT", /\/data\/[0-9a-f]+$/)).toHaveLength(1);
+  });
+
+  it("retries only the failed part", async () => {
+    const server = new FakeServer();
+    let failures = 1;
+    server.intercept = (method, url) =>
+      method === "PUT" && url.endsWith("?part=2") && failures-- > 0
+        ? new Response(null, { status: 503 })
+        : undefined;
+    const client = createClient(server.fetch, { retry: { initialDelay: 1 } });
+
+    const result = await client.createDataset(
+      "s3://bucket",
+      "parts",
+      [{ relpath: "large.bin", content: large }],
+      { multipartThreshold: 8, multipartPartSize: 4 }
+    );
+
+    expect(
+      server.storageRequests("PUT", /\?part=/).map(({ url }) => url.slice(-1))
+    ).toEqual(["1", "2", "2", "3"]);
+    expect(await server.readItem(result.uri, "large.bin")).toBe(large);
+  });
+
+  it("reports progress across parts", async () => {
+    const server = new FakeServer();
+    const client = createClient(server.fetch);
+    const onProgress = vi.fn();
+
+    await client.createDataset(
+      "s3://bucket",
+      "parts",
+      [{ relpath: "large.bin", content: large }],
+      { multipartThreshold: 8, multipartPartSize: 4, onProgress }
+    );
+
+    const loaded = onProgress.mock.calls.map(([bytes]) => bytes);
+    expect(loaded).toEqual(expect.arrayContaining([4, 8, 10]));
+    expect(loaded).toEqual([...loaded].sort((a, b) => a - b));
+    expect(onProgress).toHaveBeenLastCalledWith(10, 10, "large.bin");
+  });
+
+  it("fails before uploading without a multipart offer", async () => {
+    const server = new FakeServer();
+    server.multipart = false;
+    const client = createClient(server.fetch);
+
+    await expect(
+      client.createDataset(
+        "s3://bucket",
+        "parts",
+        [{ relpath: "large.bin", content: large }],
+        { multipartThreshold: 8 }
+      )
+    ).rejects.toThrow(
+      "Server does not offer a multipart upload for large.bin (10 Bytes)"
+    );
+    expect(server.storageRequests("PUT", /./)).toEqual([]);
+    expect(server.registered).toEqual([]);
+  });
+  it.each<[string, (parts: UploadPartURL[]) => UploadPartURL[]]>([
+    ["a gap", (parts) => parts.filter(({ part_number }) => part_number !== 2)],
+    ["the last part missing", (parts) => parts.slice(0, -1)],
+    ["an extra part", (parts) => [...parts, { ...parts[0], part_number: 4 }]],
+    ["a repeated part", (parts) => [parts[0], ...parts.slice(0, -1)]],
+    [
+      "numbers from 0",
+      (parts) =>
+        parts.map((part) => ({ ...part, part_number: part.part_number - 1 })),
+    ],
+  ])("fails before uploading parts with %s", async (_, offerParts) => {
+    const server = new FakeServer();
+    server.offerParts = offerParts;
+    const client = createClient(server.fetch);
+
+    await expect(
+      client.createDataset(
+        "s3://bucket",
+        "parts",
+        [{ relpath: "large.bin", content: large }],
+        { multipartThreshold: 8, multipartPartSize: 4 }
+      )
+    ).rejects.toThrow(
+      /Server offered parts \[.*\] of 4 bytes for large.bin \(10 bytes\)/
+    );
+    expect(server.storageRequests("PUT", /./)).toEqual([]);
+    expect(server.registered).toEqual([]);
+  });
+});
+
+describe("upload journal", () => {
+  const files = (): FileToUpload[] => [
+    { relpath: "a.txt", content: "aaa" },
+    { relpath: "b.txt", content: "bbbb" },
+  ];
+
+  /**
+   * Server on which uploads of `relpath` fail until `heal` is called
+   */
+  async function failingServer(relpath: string) {
+    const server = new FakeServer();
+    const identifier = await generateIdentifier(relpath);
+    let failing = true;
+    server.intercept = (method, url) =>
+      failing && method === "PUT" && url.endsWith(identifier)
+        ? new Response("Internal error", { status: 500 })
+        : undefined;
+    return { server, heal: () => (failing = false) };
+  }
+
+  it("records progress and deletes the journal once registered", async () => {
+    const server = new FakeServer();
+    const client = createClient(server.fetch);
+    const store = new MemoryJournalStore();
+    const saved: UploadJournal[] = [];
+    const save = store.save.bind(store);
+    store.save = async (key, journal) => {
+      saved.push(structuredClone(journal));
+      return save(key, journal);
+    };
+
+    const result = await client.createDataset("s3://bucket", "ds", files(), {
+      journal: store,
+      journalKey: "upload-1",
+    });
+
+    expect(saved[0]).toMatchObject({
+      key: "upload-1",
+      base_uri: "s3://bucket",
+      readme_uploaded: false,
+      completed: [],
+      upload_info: { uri: result.uri },
+    });
+    expect(saved.at(-1)).toMatchObject({ readme_uploaded: true });
+    expect(saved.at(-1)?.completed.sort()).toEqual(["a.txt", "b.txt"]);
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it("resumes with only the failed items", async () => {
+    const { server, heal } = await failingServer("b.txt");
+    const client = createClient(server.fetch, { retry: false });
+    const store = new MemoryJournalStore();
+
+    const error = await client
+      .createDataset("s3://bucket", "ds", files(), {
+        journal: store,
+        itemRetries: 0,
+      })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(UploadIncompleteError);
+    const { journal } = error as UploadIncompleteError;
+    expect(await store.load(journal.key)).toMatchObject({
+      completed: ["a.txt"],
+    });
+    expect(server.registered).toEqual([]);
+
+    heal();
+    server.requests.length = 0;
+    const result = await client.resumeUpload(journal.key, files(), {
+      journal: store,
+    });
+
+    expect(result.uri).toBe(`s3://bucket/${journal.request.uuid}`);
+    expect(server.registered).toEqual([result.uri]);
+    expect(server.uploadRequests).toHaveLength(1);
+    expect(server.storageRequests("PUT", /./)).toEqual([
+      expect.objectContaining({
+        url: expect.stringContaining(await generateIdentifier("b.txt")),
+      }),
+    ]);
+    expect(await server.readItem(result.uri, "b.txt")).toBe("bbbb");
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it("requests new upload URLs once the old ones expire", async () => {
+    const { server, heal } = await failingServer("b.txt");
+    server.expirySeconds = 30;
+    const client = createClient(server.fetch, { retry: false });
+
+    const error = await client
+      .createDataset("s3://bucket", "ds", files(), { itemRetries: 0 })
+      .catch((e: unknown) => e);
+    heal();
+    const { journal } = error as UploadIncompleteError;
+    const result = await client.resumeUpload(journal, [files()[1]]);
+
+    expect(server.uploadRequests).toHaveLength(2);
+    expect(server.uploadRequests[1].uuid).toBe(server.uploadRequests[0].uuid);
+    expect(server.registered).toEqual([result.uri]);
+  });
+
+  it("refuses files that changed since the upload started", async () => {
+    const { server } = await failingServer("b.txt");
+    const client = createClient(server.fetch, { retry: false });
+
+    const error = await client
+      .createDataset("s3://bucket", "ds", files(), { itemRetries: 0 })
+      .catch((e: unknown) => e);
+    const { journal } = error as UploadIncompleteError;
+
+    await expect(
+      client.resumeUpload(journal, [{ relpath: "b.txt", content: "b" }])
+    ).rejects.toThrow("File b.txt changed since the upload started");
+    await expect(client.resumeUpload(journal, [])).rejects.toThrow(
+      "Missing file for pending item b.txt"
+    );
+    await expect(client.resumeUpload("unknown", files())).rejects.toThrow(
+      "Resuming by key needs a journal store"
+    );
+  });
+
+  it("keeps uploading when the journal cannot be saved", async () => {
+    const server = new FakeServer();
+    const client = createClient(server.fetch);
+    const store = new MemoryJournalStore();
+    store.save = () => Promise.reject(new Error("quota exceeded"));
+
+    const result = await client.createDataset("s3://bucket", "ds", files(), {
+      journal: store,
+    });
+
+    expect(server.registered).toEqual([result.uri]);
+  });
+
+  it("reports a journal that could not be saved with failed items", async () => {
+    const { server } = await failingServer("b.txt");
+    const client = createClient(server.fetch, { retry: false });
+    const store = new MemoryJournalStore();
+    store.save = () => Promise.reject(new Error("quota exceeded"));
+
+    const error = await client
+      .createDataset("s3://bucket", "ds", files(), {
+        journal: store,
+        itemRetries: 0,
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UploadIncompleteError);
+    expect(error).toMatchObject({
+      journalError: new Error("quota exceeded"),
+      journal: { completed: ["a.txt"] },
+    });
+    expect((error as Error).message).toContain(
+      "the upload journal could not be saved: quota exceeded"
+    );
+  });
+});
+
+describe("upload concurrency and item retries", () => {
+  const files = (count: number): FileToUpload[] =>
+    Array.from({ length: count }, (_, i) => ({
+      relpath: `item${i}.txt`,
+      content: `content ${i}`,
+    }));
+  const itemPuts = (server: FakeServer) =>
+    server.storageRequests("PUT", /\/data\//);
+
+  /**
+   * Track how many item uploads are in flight at once
+   */
+  function trackConcurrency(server: FakeServer) {
+    let inFlight = 0;
+    const peak = { value: 0 };
+    server.intercept = async (method, url) => {
+      if (method !== "PUT" || !url.includes("/data/")) return undefined;
+      peak.value = Math.max(peak.value, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return undefined;
+    };
+    return peak;
+  }
+
+  it.each([
+    [undefined, 4],
+    [2, 2],
+    [1, 1],
+  ])("uploads with concurrency %s", async (concurrency, expected) => {
+    const server = new FakeServer();
+    const peak = trackConcurrency(server);
+    const client = createClient(server.fetch);
+
+    await client.createDataset("s3://bucket", "ds", files(8), {
+      concurrency,
+    });
+
+    expect(peak.value).toBe(expected);
+    expect(itemPuts(server)).toHaveLength(8);
+  });
+
+  it("retries a failed item with backoff", async () => {
+    const server = new FakeServer();
+    const identifier = await generateIdentifier("item1.txt");
+    let failures = 2;
+    server.intercept = (method, url) =>
+      method === "PUT" && url.endsWith(identifier) && failures-- > 0
+        ? new Response("Internal error", { status: 500 })
+        : undefined;
+    const client = createClient(server.fetch, {
+      retry: { initialDelay: 1 },
+    });
+
+    const result = await client.createDataset("s3://bucket", "ds", files(3));
+
+    expect(
+      itemPuts(server).filter(({ url }) => url.endsWith(identifier))
+    ).toHaveLength(3);
+    expect(server.registered).toEqual([result.uri]);
+  });
+
+  it("reports which items succeeded and which failed", async () => {
+    const server = new FakeServer();
+    const failing = await Promise.all(
+      ["item1.txt", "item3.txt"].map(generateIdentifier)
+    );
+    server.intercept = (method, url) =>
+      method === "PUT" && failing.some((id) => url.endsWith(id))
+        ? new Response("Internal error", { status: 500 })
+        : undefined;
+    const client = createClient(server.fetch, {
+      retry: { initialDelay: 1, maxRetries: 0 },
+    });
+
+    const error = await client
+      .createDataset("s3://bucket", "ds", files(4), { itemRetries: 1 })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UploadIncompleteError);
+    const { succeeded, failed, message } = error as UploadIncompleteError;
+    expect(message).toBe("Upload of 2 of 4 items failed: item1.txt, item3.txt");
+    expect([...succeeded].sort()).toEqual(["item0.txt", "item2.txt"]);
+    expect(failed.map(({ relpath }) => relpath).sort()).toEqual([
+      "item1.txt",
+      "item3.txt",
+    ]);
+    expect(failed[0].error).toBeInstanceOf(DServerError);
+    // Two attempts for each failing item, one for the others
+    expect(itemPuts(server)).toHaveLength(6);
+    expect(server.registered).toEqual([]);
+  });
+
+  it("does not retry items whose upload URL was rejected", async () => {
+    const server = new FakeServer();
+    server.intercept = (method, url) =>
+      method === "PUT" && url.includes("/data/")
+        ? new Response("Request has expired", { status: 403 })
+        : undefined;
+    const client = createClient(server.fetch, { retry: false });
+
+    const error = await client
+      .createDataset("s3://bucket", "ds", files(1))
+      .catch((e: unknown) => e);
+
+    expect((error as UploadIncompleteError).failed[0].error).toBeInstanceOf(
+      SignedURLExpiredError
+    );
+    expect(itemPuts(server)).toHaveLength(1);
+  });
+});
+
+describe("lazy and streaming upload content", () => {
+  const content = "generated content";
+
+  it("opens factories only to hash and upload them", async () => {
+    const server = new FakeServer();
+    const client = createClient(server.fetch);
+    const hashed = vi.fn(() => content);
+    const declared = vi.fn(async () => new Blob([content]));
+
+    const files: FileToUpload[] = [
+      { relpath: "hashed.txt", content: hashed },
+      {
+        relpath: "declared.txt",
+        content: declared,
+        size: content.length,
+        hash: md5(content),
+      },
+    ];
+    expect(hashed).not.toHaveBeenCalled();
+    const result = await client.createDataset("s3://bucket", "ds", files);
+
+    expect(hashed).toHaveBeenCalledTimes(2);
+    expect(declared).toHaveBeenCalledTimes(1);
+    expect(await server.readItem(result.uri, "hashed.txt")).toBe(content);
+    expect(await server.readItem(result.uri, "declared.txt")).toBe(content);
+    expect(server.uploadRequests[0].items).toEqual([
+      expect.objectContaining({ relpath: "hashed.txt", hash: md5(content) }),
+      expect.objectContaining({ relpath: "declared.txt", hash: md5(content) }),
+    ]);
+  });
+
+  it("uploads streams passed directly", async () => {
+    const server = new FakeServer();
+    const client = createClient(server.fetch);
+    const metadata = { size: content.length, hash: md5(content) };
+
+    const result = await client.createDataset("s3://bucket", "ds", [
+      {
+        relpath: "web.txt",
+        content: chunkedBody([encoder.encode(content)]),
+        ...metadata,
+      },
+      { relpath: "node.txt", content: Readable.from([content]), ...metadata },
+    ]);
+
+    expect(await server.readItem(result.uri, "web.txt")).toBe(content);
+    expect(await server.readItem(result.uri, "node.txt")).toBe(content);
+  });
+
+  it("needs the size and hash of streams passed directly", async () => {
+    const client = createClient(new FakeServer().fetch);
+
+    await expect(
+      client.createDataset("s3://bucket", "ds", [
+        { relpath: "web.txt", content: chunkedBody([encoder.encode(content)]) },
+      ])
+    ).rejects.toThrow(FileValidationError);
+  });
+
+  it("opens each part of a multipart item at its offset", async () => {
+    const server = new FakeServer();
+    const client = createClient(server.fetch);
+    const factory = vi.fn(() => chunkedBody([encoder.encode(content)]));
+    const openRange = vi.fn((start: number, end: number) =>
+      chunkedBody([encoder.encode(content.slice(start, end))])
+    );
+
+    const result = await client.createDataset(
+      "s3://bucket",
+      "ds",
+      [
+        {
+          relpath: "large.bin",
+          content: factory,
+          openRange,
+          size: content.length,
+          hash: md5(content),
+        },
+      ],
+      { multipartThreshold: 8, multipartPartSize: 8 }
+    );
+
+    expect(factory).not.toHaveBeenCalled();
+    expect(openRange.mock.calls).toEqual([
+      [0, 8],
+      [8, 16],
+      [16, 17],
+    ]);
+    expect(await server.readItem(result.uri, "large.bin")).toBe(content);
+  });
+});
+
+describe("hashing before upload", () => {
+  it("hashes hashConcurrency files at a time", async () => {
+    let open = 0;
+    let peak = 0;
+    const slowContent = () => {
+      open++;
+      peak = Math.max(peak, open);
+      return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          controller.enqueue(encoder.encode("data"));
+          controller.close();
+          open--;
+        },
+      });
+    };
+    const client = createClient(new FakeServer().fetch);
+
+    await client.createDataset(
+      "s3://bucket",
+      "ds",
+      ["a", "b", "c", "d", "e", "f"].map((relpath) => ({
+        relpath,
+        content: slowContent,
+      })),
+      // One upload at a time, so more open files can only come from hashing
+      { hashConcurrency: 3, concurrency: 1 }
+    );
+
+    expect(peak).toBe(3);
+  });
+
+  it("reports hashing progress", async () => {
+    const onHashProgress = vi.fn();
+    const client = createClient(new FakeServer().fetch);
+
+    await client.createDataset(
+      "s3://bucket",
+      "ds",
+      [
+        { relpath: "a.txt", content: "alpha" },
+        { relpath: "b.txt", content: "beta", size: 4, hash: md5("beta") },
+        { relpath: "c.txt", content: "gamma!" },
+      ],
+      { hashConcurrency: 1, onHashProgress }
+    );
+
+    expect(onHashProgress.mock.calls).toEqual([
+      [5, 11, "a.txt"],
+      [11, 11, "c.txt"],
+    ]);
+  });
+
+  it("stops hashing after a file fails", async () => {
+    const opened: string[] = [];
+    const client = createClient(new FakeServer().fetch);
+
+    await expect(
+      client.createDataset(
+        "s3://bucket",
+        "ds",
+        ["a", "b", "c", "d"].map((relpath) => ({
+          relpath,
+          content: () => {
+            opened.push(relpath);
+            if (relpath === "b") throw new Error("unreadable");
+            return relpath;
+          },
+        })),
+        { hashConcurrency: 1 }
+      )
+    ).rejects.toThrow("unreadable");
+    expect(opened).toEqual(["a", "b"]);
+  });
+});
+
+describe("upload progress", () => {
+  it("reports each phase and the state of every item", async () => {
+    const events: UploadProgressEvent[] = [];
+    const client = createClient(new FakeServer().fetch);
+
+    await client.createDataset(
+      "s3://bucket",
+      "ds",
+      [
+        { relpath: "a.txt", content: "alpha" },
+        { relpath: "b.txt", content: "beta" },
+      ],
+      { onUploadProgress: (event) => events.push(structuredClone(event)) }
+    );
+
+    const phases = events
+      .map(({ phase }) => phase)
+      .filter((phase, i, all) => phase !== all[i - 1]);
+    expect(phases).toEqual([
+      "hashing",
+      "uploading-readme",
+      "uploading-items",
+      "finalizing",
+      "complete",
+    ]);
+    const hashed = events.filter(({ phase }) => phase === "hashing").at(-1)!;
+    expect(hashed).toMatchObject({ loaded: 9, total: 9 });
+    expect(
+      events.some(
+        ({ phase, items }) =>
+          phase === "uploading-items" && items["a.txt"].state === "uploading"
+      )
+    ).toBe(true);
+    expect(events.at(-1)).toMatchObject({
+      phase: "complete",
+      loaded: 9,
+      total: 9,
+      items: {
+        "a.txt": { loaded: 5, total: 5, state: "done" },
+        "b.txt": { loaded: 4, total: 4, state: "done" },
+      },
+    });
+  });
+
+  it("marks items that failed", async () => {
+    const server = new FakeServer();
+    server.intercept = (method, url) =>
+      method === "PUT" && url.includes("/data/")
+        ? new Response(null, { status: 500 })
+        : undefined;
+    const onUploadProgress = vi.fn();
+    const client = createClient(server.fetch);
+
+    await expect(
+      client.createDataset(
+        "s3://bucket",
+        "ds",
+        [{ relpath: "a.txt", content: "alpha" }],
+        { itemRetries: 0, onUploadProgress }
+      )
+    ).rejects.toThrow(UploadIncompleteError);
+    expect(onUploadProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        phase: "uploading-items",
+        item: "a.txt",
+        items: { "a.txt": expect.objectContaining({ state: "failed" }) },
+      })
+    );
+  });
+});
+
+describe("ProtoDataset", () => {
+  it("freezes and uploads the staged dataset", async () => {
+    const server = new FakeServer();
+    const client = createClient(server.fetch);
+    const factory = vi.fn(() => "two");
+    const proto = client.createProtoDataset("s3://bucket", "run-42", {
+      creatorUsername: "jane",
+    });
+
+    proto
+      .addItem("raw/1.dat", "one")
+      .addItem("raw/2.dat", factory)
+      .addItem("scratch.txt", "temporary")
+      .setReadme("---\ndescription: run 42\n")
+      .addTag("raw")
+      .setAnnotation("project", "apollo");
+    proto.removeItem("scratch.txt");
+    const manifest = await proto.getManifest();
+    expect(Object.values(manifest.items)).toEqual([
+      { relpath: "raw/1.dat", size_in_bytes: 3, hash: md5("one") },
+      { relpath: "raw/2.dat", size_in_bytes: 3, hash: md5("two") },
+    ]);
+
+    const result = await proto.freeze();
+
+    expect(result).toMatchObject({
+      uri: `s3://bucket/${proto.uuid}`,
+      uuid: proto.uuid,
+      name: "run-42",
+    });
+    expect(server.registered).toEqual([result.uri]);
+    expect(server.uploadRequests[0]).toMatchObject({
+      uuid: proto.uuid,
+      creator_username: "jane",
+      tags: ["raw"],
+      annotations: { project: "apollo" },
+      items: [
+        expect.objectContaining({ relpath: "raw/1.dat", hash: md5("one") }),
+        expect.objectContaining({ relpath: "raw/2.dat", hash: md5("two") }),
+      ],
+    });
+    expect(await server.readItem(result.uri, "raw/1.dat")).toBe("one");
+    expect(await server.readItem(result.uri, "raw/2.dat")).toBe("two");
+    expect(server.read(result.uri, "README.yml")).toBe(
+      "---\ndescription: run 42\n"
+    );
+    // Hashed once by getManifest() and read once more for the upload
+    expect(factory).toHaveBeenCalledTimes(2);
+
+    expect(proto.frozen).toBe(true);
+    expect(() => proto.addItem("late.txt", "late")).toThrow(
+      `Dataset ${proto.uuid} is already frozen`
+    );
+  });
+
+  it("stays open when the upload fails", async () => {
+    const server = new FakeServer();
+    server.intercept = (method, url) =>
+      method === "PUT" && url.includes("/data/")
+        ? new Response(null, { status: 500 })
+        : undefined;
+    const client = createClient(server.fetch);
+    const proto = client.createProtoDataset("s3://bucket", "run-42");
+    proto.addItem("a.txt", "alpha");
+
+    await expect(proto.freeze({ itemRetries: 0 })).rejects.toThrow(
+      UploadIncompleteError
+    );
+    expect(proto.frozen).toBe(false);
+    expect(proto.addItem("b.txt", "beta").relpaths).toEqual(["a.txt", "b.txt"]);
+  });
+
+  it("cannot be frozen without items", async () => {
+    const client = createClient(new FakeServer().fetch);
+
+    await expect(
+      client.createProtoDataset("s3://bucket", "empty").freeze()
+    ).rejects.toThrow("Cannot freeze a dataset without items");
+  });
+});
+
+describe("copyDataset", () => {
+  const source = "s3://scratch/1a1f9fad-8589-413e-9602-5bbd66bfe675";
+  const admin = {
+    uuid: "1a1f9fad-8589-413e-9602-5bbd66bfe675",
+    name: "tensile-tests",
+    creator_username: "jane",
+    frozen_at: 1700000000,
+  };
+  const items = { "a.txt": "aaa", "data/b.bin": "0123456789" };
+
+  async function serverWithSource(
+    overrides: Partial<UploadRequest> = {},
+    readme = "---\ndescription: tensile tests\n"
+  ): Promise<FakeServer> {
+    const server = new FakeServer();
+    await server.addDataset(
+      source,
+      {
+        ...admin,
+        tags: ["raw", "validated"],
+        annotations: { project: "materials", specimen: { id: 3 } },
+        ...overrides,
+      },
+      items,
+      readme
+    );
+    return server;
+  }
+
+  it("copies the dataset with its identity", async () => {
+    const server = await serverWithSource();
+    const client = createClient(server.fetch);
+
+    const result = await client.copyDataset(source, "s3://archive");
+
+    expect(result.uri).toBe(`s3://archive/${admin.uuid}`);
+    expect(server.registered).toEqual([result.uri]);
+    expect(server.uploadRequests[0]).toMatchObject({
+      ...admin,
+      tags: ["raw", "validated"],
+      annotations: { project: "materials", specimen: { id: 3 } },
+      items: [
+        expect.objectContaining({ relpath: "a.txt", hash: md5("aaa") }),
+        expect.objectContaining({
+          relpath: "data/b.bin",
+          size_in_bytes: 10,
+          hash: md5("0123456789"),
+        }),
+      ],
+    });
+    expect(server.read(result.uri, "README.yml")).toBe(
+      "---\ndescription: tensile tests\n"
+    );
+    for (const [relpath, content] of Object.entries(items)) {
+      expect(await server.readItem(result.uri, relpath)).toBe(content);
+    }
+    // The registered copy is read back item by item
+    expect(server.storageRequests("GET", /\/archive\/.*\/data\//)).toHaveLength(
+      2
+    );
+  });
+
+  it("downloads multipart items as byte ranges", async () => {
+    const server = await serverWithSource();
+    const client = createClient(server.fetch);
+    const identifier = await generateIdentifier("data/b.bin");
+
+    const result = await client.copyDataset(source, "s3://archive", {
+      multipartThreshold: 8,
+      multipartPartSize: 4,
+    });
+
+    const sourceGets = server.storageRequests(
+      "GET",
+      new RegExp(`/scratch/.*/data/${identifier}$`)
+    );
+    expect(sourceGets.map(({ range }) => range)).toEqual([
+      "bytes=0-3",
+      "bytes=4-7",
+      "bytes=8-9",
+    ]);
+    expect(await server.readItem(result.uri, "data/b.bin")).toBe("0123456789");
+  });
+
+  it("checks multipart items against the source hash before completing them", async () => {
+    const server = await serverWithSource();
+    // Same size as the manifest entry, different bytes
+    server.storage.set(
+      `https://storage/${source.slice("s3://".length)}/data/` +
+        (await generateIdentifier("data/b.bin")),
+      encoder.encode("0123456789".replace("5", "X"))
+    );
+    const client = createClient(server.fetch);
+
+    const error = await client
+      .copyDataset(source, "s3://archive", {
+        multipartThreshold: 8,
+        multipartPartSize: 4,
+        itemRetries: 0,
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UploadIncompleteError);
+    const [failure] = (error as UploadIncompleteError).failed;
+    expect(failure.relpath).toBe("data/b.bin");
+    expect(failure.error).toBeInstanceOf(IntegrityError);
+    expect(failure.error).toMatchObject({
+      expected: md5("0123456789"),
+      actual: md5("01234X6789"),
+    });
+    expect(server.multipartCompletions).toEqual([]);
+    expect(server.registered).toEqual([]);
+  });
+
+  it("hashes a retried part only once", async () => {
+    const server = await serverWithSource();
+    let failures = 1;
+    server.intercept = (method, url) =>
+      method === "PUT" && url.endsWith("?part=2") && failures-- > 0
+        ? new Response(null, { status: 503 })
+        : undefined;
+    const client = createClient(server.fetch, { retry: { initialDelay: 1 } });
+
+    const result = await client.copyDataset(source, "s3://archive", {
+      multipartThreshold: 8,
+      multipartPartSize: 4,
+    });
+
+    expect(server.registered).toEqual([result.uri]);
+    expect(await server.readItem(result.uri, "data/b.bin")).toBe("0123456789");
+  });
+
+  it("copies a dataset without a README", async () => {
+    const server = await serverWithSource({}, "");
+    const client = createClient(server.fetch);
+
+    const result = await client.copyDataset(source, "s3://archive");
+
+    expect(server.registered).toEqual([result.uri]);
+    expect(server.read(result.uri, "README.yml")).toBe("---\n");
+  });
+
+  it("keeps an empty creator", async () => {
+    const server = await serverWithSource({ creator_username: "" });
+    // A token for "bob", who would be recorded as creator by default
+    const token = `header.${btoa(JSON.stringify({ sub: "bob" }))}.signature`;
+    const client = createClient(server.fetch, { token });
+
+    const result = await client.copyDataset(source, "s3://archive");
+
+    expect(server.registered).toEqual([result.uri]);
+    expect(server.uploadRequests[0].creator_username).toBe("");
+  });
+
+  it("reads the registered copy back", async () => {
+    const server = await serverWithSource();
+    server.intercept = (method, url) =>
+      method === "GET" && url.endsWith("/archive/" + admin.uuid + "/dtool")
+        ? Response.json({ ...admin, type: "dataset", name: "renamed" })
+        : undefined;
+    const client = createClient(server.fetch);
+
+    await expect(client.copyDataset(source, "s3://archive")).rejects.toThrow(
+      `Copy of ${source} differs in admin_metadata.name ` +
+        `(the copy is registered at s3://archive/${admin.uuid})`
+    );
+    expect(server.registered).toEqual([`s3://archive/${admin.uuid}`]);
+  });
+
+  it("downloads the items of the registered copy", async () => {
+    const server = await serverWithSource();
+    const identifier = await generateIdentifier("a.txt");
+    server.intercept = (method, url) =>
+      method === "GET" &&
+      url.endsWith(`/archive/${admin.uuid}/data/${identifier}`)
+        ? new Response("aab")
+        : undefined;
+    const client = createClient(server.fetch);
+
+    const error = await client
+      .copyDataset(source, "s3://archive")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(IntegrityError);
+    expect(error).toMatchObject({
+      message:
+        `Hash mismatch for item a.txt: expected ${md5("aaa")}, got ` +
+        `${md5("aab")} (the copy is registered at s3://archive/${admin.uuid})`,
+      identifier,
+      expected: md5("aaa"),
+      actual: md5("aab"),
+    });
+  });
+
+  it("skips the checks with verify: false", async () => {
+    const server = await serverWithSource();
+    const client = createClient(server.fetch);
+
+    const result = await client.copyDataset(source, "s3://archive", {
+      verify: false,
+    });
+
+    expect(server.registered).toEqual([result.uri]);
+    expect(
+      server.storageRequests("GET", /\/archive\//).map(({ url }) => url)
+    ).toEqual([]);
+  });
+});
+
+describe("createDerivedDataset", () => {
+  const source = "s3://scratch/1a1f9fad-8589-413e-9602-5bbd66bfe675";
+  const uuid = "1a1f9fad-8589-413e-9602-5bbd66bfe675";
+  const files = [{ relpath: "filtered.csv", content: "1,2,3" }];
+
+  const entry = (name: string) => ({
+    uuid,
+    uri: source,
+    base_uri: "s3://scratch",
+    name,
+    creator_username: "jane",
+    created_at: 1700000000,
+    frozen_at: 1700000000,
+  });
+
+  /**
+   * Server holding the source dataset, whose registered entry is named
+   * `registered-name` to tell it from the admin metadata
+   */
+  async function serverWithSource(): Promise<FakeServer> {
+    const server = new FakeServer();
+    await server.addDataset(
+      source,
+      { uuid, name: "raw-data", creator_username: "jane", frozen_at: 1 },
+      { "a.txt": "aaa" }
+    );
+    server.intercept = (method, url) => {
+      if (url === `http://dserver/uris/${encodeURIComponent(source)}`) {
+        return Response.json(entry("registered-name"));
+      }
+      if (url.startsWith("http://dserver/uuids/")) {
+        return Response.json(
+          url.endsWith(uuid) ? [entry("registered-name")] : []
+        );
+      }
+      return undefined;
+    };
+    return server;
+  }
+
+  const derivedFrom = (server: FakeServer, uri: string) =>
+    parseReadme(server.read(uri, "README.yml") ?? "").get("derived_from");
+
+  const dserverRequests = (server: FakeServer, path: string) =>
+    server.requests.filter(({ url }) =>
+      url.startsWith(`http://dserver${path}`)
+    );
+
+  it("looks up a source URI through its admin metadata", async () => {
+    const server = await serverWithSource();
+    const client = createClient(server.fetch);
+
+    const result = await client.createDerivedDataset(
+      "s3://derived",
+      "filtered",
+      [source],
+      files
+    );
+
+    expect(derivedFrom(server, result.uri)).toEqual([
+      { uuid, name: "raw-data", uri: source },
+    ]);
+    expect(dserverRequests(server, "/uris/")).toEqual([]);
+    expect(await server.readItem(result.uri, "filtered.csv")).toBe("1,2,3");
+  });
+
+  it("looks up a source URI through its registered entry with verifySources", async () => {
+    const server = await serverWithSource();
+    const client = createClient(server.fetch);
+
+    const result = await client.createDerivedDataset(
+      "s3://derived",
+      "filtered",
+      [source],
+      files,
+      { verifySources: true }
+    );
+
+    expect(derivedFrom(server, result.uri)).toEqual([
+      { uuid, name: "registered-name", uri: source },
+    ]);
+    expect(server.storageRequests("GET", /\/scratch\//)).toEqual([]);
+  });
+
+  it("records a source UUID as it is", async () => {
+    const server = await serverWithSource();
+    const client = createClient(server.fetch);
+
+    const result = await client.createDerivedDataset(
+      "s3://derived",
+      "filtered",
+      ["6b0c7e52-1d1a-4f4e-9e0b-2f1c3a7d9e10"],
+      files
+    );
+
+    expect(derivedFrom(server, result.uri)).toEqual([
+      { uuid: "6b0c7e52-1d1a-4f4e-9e0b-2f1c3a7d9e10" },
+    ]);
+    expect(dserverRequests(server, "/uuids/")).toEqual([]);
+  });
+
+  it("looks up a source UUID with verifySources", async () => {
+    const server = await serverWithSource();
+    const client = createClient(server.fetch);
+
+    const result = await client.createDerivedDataset(
+      "s3://derived",
+      "filtered",
+      [uuid],
+      files,
+      { verifySources: true }
+    );
+
+    expect(derivedFrom(server, result.uri)).toEqual([
+      { uuid, name: "registered-name" },
+    ]);
+  });
+
+  it("refuses an unregistered source UUID with verifySources", async () => {
+    const server = await serverWithSource();
+    const client = createClient(server.fetch);
+
+    await expect(
+      client.createDerivedDataset(
+        "s3://derived",
+        "filtered",
+        ["6b0c7e52-1d1a-4f4e-9e0b-2f1c3a7d9e10"],
+        files,
+        { verifySources: true }
+      )
+    ).rejects.toThrow(NotFoundError);
+    expect(server.uploadRequests).toEqual([]);
+  });
+
+  it("merges the provenance into the README and annotations", async () => {
+    const server = await serverWithSource();
+    const client = createClient(server.fetch);
+
+    const result = await client.createDerivedDataset(
+      "s3://derived",
+      "filtered",
+      [source],
+      files,
+      {
+        readme: "---\n# Filtered in March\ndescription: Filtered spectra\n",
+        annotations: { project: "spectra" },
+        dependencyKeys: [
+          "readme.derived_from.uuid",
+          "annotations.source_dataset_uuid",
+        ],
+      }
+    );
+
+    const readme = server.read(result.uri, "README.yml")!;
+    expect(readme).toContain("# Filtered in March\n");
+    expect(parseReadme(readme).toJSON()).toEqual({
+      description: "Filtered spectra",
+      derived_from: [{ uuid, name: "raw-data", uri: source }],
+    });
+    expect(server.uploadRequests[0].annotations).toEqual({
+      project: "spectra",
+      source_dataset_uuid: uuid,
+    });
+  });
+
+  it("needs at least one source", async () => {
+    const client = createClient(new FakeServer().fetch);
+
+    await expect(
+      client.createDerivedDataset("s3://derived", "filtered", [], files)
+    ).rejects.toThrow("A derived dataset needs at least one source");
+  });
+});
+
+describe("dataset lookup", () => {
+  const uri = "s3://bucket/1a1f9fad-8589-413e-9602-5bbd66bfe675";
+  const entry = {
+    uuid: "1a1f9fad-8589-413e-9602-5bbd66bfe675",
+    uri,
+    base_uri: "s3://bucket",
+    name: "tensile-tests",
+    creator_username: "jane",
+    created_at: 1700000000,
+    frozen_at: 1700000000,
+  };
+
+  /**
+   * Client whose server answers the routes in `routes` by method and path
+   * and every other request with a 404
+   */
+  function lookupClient(routes: Record<string, unknown>) {
+    const fetch = mockFetch((url, init) => {
+      const route = `${init.method ?? "GET"} ${url.replace("http://dserver", "")}`;
+      return route in routes
+        ? Response.json(routes[route])
+        : new Response("Not found", { status: 404 });
+    });
+    const routesCalled = () =>
+      fetch.mock.calls.map(
+        ([input, init]) =>
+          `${init?.method ?? "GET"} ${String(input).replace("http://dserver", "")}`
+      );
+    return {
+      client: createClient(fetch, { retry: false }),
+      fetch,
+      routesCalled,
+    };
+  }
+
+  const encoded = encodeURIComponent(uri);
+
+  it("gets a dataset entry by URI", async () => {
+    const { client, routesCalled } = lookupClient({
+      [`GET /uris/${encoded}`]: entry,
+    });
+
+    expect(await client.getDataset(uri)).toEqual(entry);
+    expect(routesCalled()).toEqual([`GET /uris/${encoded}`]);
+  });
+
+  it.each<[string, Record<string, unknown>]>([
+    ["a 404", {}],
+    ["an empty answer", { [`GET /uris/${encoded}`]: null }],
+  ])("throws a NotFoundError for %s from getDataset", async (_, routes) => {
+    const { client } = lookupClient(routes);
+
+    const error = await client.getDataset(uri).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect((error as NotFoundError).message).toBe(`Dataset ${uri} not found`);
+  });
+
+  it("lists the datasets of a base URI through the search", async () => {
+    const { client, fetch, routesCalled } = lookupClient({
+      "POST /uris?page=2&page_size=1": [entry],
+    });
+
+    const page = await client.listDatasets("s3://bucket", {
+      page: 2,
+      page_size: 1,
+    });
+
+    expect(page.data).toEqual([entry]);
+    expect(routesCalled()).toEqual(["POST /uris?page=2&page_size=1"]);
+    expect(JSON.parse(String(fetch.mock.calls[0][1]?.body))).toEqual({
+      base_uris: ["s3://bucket"],
+    });
+  });
+
+  it("returns an empty page for a base URI the user may search", async () => {
+    const { client, routesCalled } = lookupClient({
+      "POST /uris": [],
+      "GET /me": {
+        username: "jane",
+        is_admin: false,
+        search_permissions_on_base_uris: ["s3://bucket"],
+        register_permissions_on_base_uris: [],
+      },
+    });
+
+    expect((await client.listDatasets("s3://bucket")).data).toEqual([]);
+    expect(routesCalled()).toEqual(["POST /uris", "GET /me"]);
+  });
+
+  it("throws a NotFoundError for a base URI the user may not search", async () => {
+    const { client } = lookupClient({
+      "POST /uris": [],
+      "GET /me": {
+        username: "jane",
+        is_admin: false,
+        search_permissions_on_base_uris: ["s3://other"],
+        register_permissions_on_base_uris: [],
+      },
+    });
+
+    await expect(client.listDatasets("s3://bucket")).rejects.toThrow(
+      new NotFoundError("Base URI s3://bucket not found")
+    );
+  });
+
+  it("summarizes a dataset with the counts reported by the server", async () => {
+    const { client, routesCalled } = lookupClient({
+      [`GET /uris/${encoded}`]: {
+        ...entry,
+        number_of_items: 2,
+        size_in_bytes: 13,
+        tags: ["raw"],
+      },
+      [`GET /annotations/${encoded}`]: { annotations: { project: "x" } },
+    });
+
+    expect(await client.getDatasetSummary(uri)).toEqual({
+      ...entry,
+      number_of_items: 2,
+      size_in_bytes: 13,
+      tags: ["raw"],
+      annotations: { project: "x" },
+    });
+    expect(routesCalled()).toEqual([
+      `GET /uris/${encoded}`,
+      `GET /annotations/${encoded}`,
+    ]);
+  });
+
+  it("counts the items and tags of a dataset on the client", async () => {
+    const item = (size_in_bytes: number) => ({
+      relpath: "x",
+      size_in_bytes,
+      hash: "h",
+      utc_timestamp: 1700000000,
+    });
+    const { client, routesCalled } = lookupClient({
+      [`GET /uris/${encoded}`]: entry,
+      [`GET /annotations/${encoded}`]: { annotations: {} },
+      [`GET /tags/${encoded}`]: { tags: ["raw", "validated"] },
+      [`GET /manifests/${encoded}`]: {
+        dtoolcore_version: "3.18.0",
+        hash_function: "md5sum_hexdigest",
+        items: { a: item(3), b: item(10), c: item(0) },
+      },
+    });
+
+    expect(await client.getDatasetSummary(uri)).toEqual({
+      ...entry,
+      number_of_items: 3,
+      size_in_bytes: 13,
+      tags: ["raw", "validated"],
+      annotations: {},
+    });
+    expect(routesCalled().sort()).toEqual(
+      [
+        `GET /uris/${encoded}`,
+        `GET /annotations/${encoded}`,
+        `GET /tags/${encoded}`,
+        `GET /manifests/${encoded}`,
+      ].sort()
+    );
+  });
+
+  it("throws a NotFoundError from getDatasetSummary for an unknown dataset", async () => {
+    const { client, routesCalled } = lookupClient({});
+
+    await expect(client.getDatasetSummary(uri)).rejects.toThrow(NotFoundError);
+    expect(routesCalled()).toEqual([`GET /uris/${encoded}`]);
+  });
+});
@@ -4,54 +4,121 @@
 
 import {
   DServerClientConfig,
+  TokenProvider,
+  Middleware,
+  MiddlewareRequest,
+  RetryPolicy,
+  RequestOptions,
   DatasetSignedURLsResponse,
   ItemSignedURLResponse,
   UploadRequest,
+  UploadItem,
+  UploadJournal,
   UploadURLsResponse,
   UploadCompleteRequest,
   UploadCompleteResponse,
+  UploadItemURL,
+  CompletedPart,
+  MultipartCompleteRequest,
+  MultipartUploadInfo,
   AdminMetadata,
   Manifest,
   ManifestItem,
   DownloadOptions,
   UploadOptions,
+  CopyDatasetOptions,
+  DatasetSource,
+  DerivedDatasetOptions,
   FileToUpload,
   DServerError,
+  IntegrityError,
   AuthenticationError,
   AuthorizationError,
   NotFoundError,
+  PluginNotAvailableError,
+  SignedURLExpiredError,
+  UploadIncompleteError,
+  UploadItemFailure,
+  DatasetSessionOptions,
+  ProtoDatasetOptions,
   // REST API types
   DatasetEntry,
+  DatasetSummary,
   SearchQuery,
   PaginationParams,
   PaginationInfo,
   PaginatedResponse,
+  SearchIterationOptions,
   ServerVersions,
+  ServerCapabilities,
+  ServerFeature,
+  CapabilitiesOptions,
   TagsResponse,
   AnnotationsResponse,
   ReadmeResponse,
   ManifestResponse,
+  ReadmeUpdateOptions,
   SummaryInfo,
   // User management types
   UserInfo,
   UserRequest,
   BaseURIInfo,
   BaseURIPermissionsRequest,
+  // Direct Mongo plugin types
+  MongoQueryRequest,
+  MongoPipelineStage,
   // Dependency graph types
   GraphDatasetEntry,
 } from "./types";
 
 import {
+  createHasher,
+  delay,
   encodeUri,
+  formatBytes,
   generateIdentifier,
   generateUUID,
   getCurrentTimestamp,
   getJwtSubject,
   parallelLimit,
   parsePaginationHeader,
+  parseRetryAfter,
+  RangeHasher,
+  readStream,
+  supportsRequestStreams,
+  trackProgress,
+  verifyStream,
+  xhrFetch,
 } from "./utils";
+import type { IncrementalHasher } from "./utils";
 
-import SparkMD5 from "spark-md5";
+import {
+  contentStream,
+  createBodyReader,
+  getContentSize,
+  getKnownSize,
+  hashContent,
+  isStaticContent,
+  UPLOAD_HASH_FUNCTION,
+  UploadBody,
+} from "./content";
+import { UploadProgressTracker } from "./progress";
+import { requireValidFiles } from "./validation";
+import { ProtoDataset } from "./proto-dataset";
+import { addProvenance } from "./provenance";
+import { SearchQueryBuilder, toSearchRequest } from "./query";
+import {
+  satisfiesVersion,
+  SERVER_FEATURE_PLUGINS,
+  toServerCapabilities,
+} from "./capabilities";
+import {
+  parseReadme,
+  readmeText,
+  ReadmeDocument,
+  requireValidReadme,
+} from "./readme";
+import { DatasetSession } from "./session";
 
 /**
  * Pull a human-readable message out of a dserver error body, if present.
@@ -71,6 +138,116 @@ function extractErrorMessage(errorBody: unknown): string | undefined {
   return undefined;
 }
 
+/**
+ * Retry settings used where neither the client nor the call overrides them
+ */
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  backoffFactor: 2,
+  retryOnStatus: [429, 502, 503, 504],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+};
+
+/**
+ * Items at least this large are uploaded in parts by default (5 GiB, the
+ * largest single PUT S3 accepts)
+ */
+const DEFAULT_MULTIPART_THRESHOLD = 5 * 1024 * 1024 * 1024;
+
+/**
+ * Part size requested for multipart uploads by default (64 MiB)
+ */
+const DEFAULT_MULTIPART_PART_SIZE = 64 * 1024 * 1024;
+
+/**
+ * README uploaded for a dataset without one
+ */
+const EMPTY_README = "---\n";
+
+/**
+ * HTTP methods that are safe to retry
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+
+/**
+ * Whether the signed URLs recorded in an upload journal have expired or
+ * will within a minute
+ */
+function uploadUrlsExpired(journal: UploadJournal): boolean {
+  if (!journal.upload_info || journal.upload_urls_fetched_at === undefined) {
+    return true;
+  }
+  const expiresAt =
+    journal.upload_urls_fetched_at + journal.upload_info.expiry_seconds * 1000;
+  return Date.now() + 60000 >= expiresAt;
+}
+
+/**
+ * Check that the parts of a multipart upload are numbered 1..n without gaps
+ * and together cover the whole item
+ */
+function checkMultipartParts(
+  item: UploadItem,
+  multipart: MultipartUploadInfo
+): void {
+  const { part_size: partSize } = multipart;
+  const numbers = multipart.parts
+    .map((part) => part.part_number)
+    .sort((a, b) => a - b);
+  const expected =
+    Number.isInteger(partSize) && partSize > 0
+      ? Math.max(1, Math.ceil(item.size_in_bytes / partSize))
+      : undefined;
+  if (
+    expected === undefined ||
+    numbers.length !== expected ||
+    numbers.some((number, i) => number !== i + 1)
+  ) {
+    throw new DServerError(
+      `Server offered parts [${numbers.join(", ")}] of ${partSize} bytes ` +
+        `for ${item.relpath} (${item.size_in_bytes} bytes), which do not ` +
+        `cover the item`
+    );
+  }
+}
+
+/**
+ * Checks `copyDataset` runs before parts of an upload are committed
+ */
+interface UploadChecks {
+  /** Called before the multipart upload of an item is completed */
+  beforeCompleteItem?: (relpath: string) => void;
+}
+
+/**
+ * Copy of a JSON value with object keys sorted, for order-independent
+ * comparison
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Internal options for REST calls
+ */
+interface ApiRequestOptions extends RequestOptions {
+  /** Treat the call as safe to retry regardless of its HTTP method */
+  idempotent?: boolean;
+}
+
 /**
  * Client for interacting with dserver's signed URL API
  *
@@ -90,61 +267,288 @@ function extractErrorMessage(errorBody: unknown): string | undefined {
  */
 export class DServerClient {
   private baseUrl: string;
-  private token?: string;
+  private token?: string | TokenProvider;
+  private refreshTokenImpl?: () => Promise<string | void>;
+  private tokenRefresh?: Promise<void>;
   private fetchImpl: typeof fetch;
+  private customFetch: boolean;
+  private middleware: Middleware[];
+  private retry: RetryPolicy | false;
+  private capabilities?: Promise<ServerCapabilities>;
 
   constructor(config: DServerClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ""); // Remove trailing slash
     this.token = config.token;
+    this.refreshTokenImpl = config.refreshToken;
     // Bind fetch to window/globalThis to avoid "Illegal invocation" errors
     this.fetchImpl = config.fetch ?? fetch.bind(globalThis);
+    this.customFetch = config.fetch !== undefined;
+    this.middleware = [...(config.middleware ?? [])];
+    this.retry = config.retry ?? {};
   }
 
   /**
-   * Set or update the authentication token
+   * Register a middleware. Middleware run in registration order for every
+   * request the client makes, including signed-URL transfers.
    */
-  setToken(token: string): void {
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Send a request, retrying transient failures according to the retry
+   * policy. Each attempt passes through the middleware chain.
+   *
+   * With `onUploadProgress`, the number of request body bytes sent is
+   * reported during each attempt. Pass `init` as a function to build a new
+   * request, e.g. with a fresh body stream, for every attempt.
+   */
+  private async send(
+    kind: MiddlewareRequest["kind"],
+    url: string,
+    init: RequestInit | (() => Promise<RequestInit>) = {},
+    retry: RetryPolicy | false = false,
+    onUploadProgress?: (loaded: number) => void
+  ): Promise<Response> {
+    const makeInit = typeof init === "function" ? init : async () => init;
+    if (!retry) {
+      return this.dispatch(kind, url, await makeInit(), onUploadProgress);
+    }
+    const policy = { ...DEFAULT_RETRY_POLICY, ...retry };
+    let backoff = policy.initialDelay;
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < policy.maxRetries;
+      const attemptInit = await makeInit();
+      const signal = attemptInit.signal ?? undefined;
+      let response: Response;
+      try {
+        response = await this.dispatch(
+          kind,
+          url,
+          attemptInit,
+          onUploadProgress
+        );
+      } catch (error) {
+        // fetch signals network failures with a TypeError; aborts and
+        // errors raised by middleware are not retried.
+        if (
+          !canRetry ||
+          !policy.retryOnNetworkError ||
+          !(error instanceof TypeError) ||
+          signal?.aborted
+        ) {
+          throw error;
+        }
+        await delay(backoff, signal);
+        backoff = Math.min(backoff * policy.backoffFactor, policy.maxDelay);
+        continue;
+      }
+
+      if (!canRetry || !policy.retryOnStatus.includes(response.status)) {
+        return response;
+      }
+      const retryAfter = policy.respectRetryAfter
+        ? parseRetryAfter(response.headers.get("Retry-After"))
+        : undefined;
+      if (retryAfter !== undefined && retryAfter > policy.maxDelay) {
+        return response;
+      }
+      await response.body?.cancel();
+      await delay(Math.max(backoff, retryAfter ?? 0), signal);
+      backoff = Math.min(backoff * policy.backoffFactor, policy.maxDelay);
+    }
+  }
+
+  /**
+   * Resolve the retry policy for a call from the client default and the
+   * per-call override
+   */
+  private resolveRetry(
+    override: RetryPolicy | false | undefined
+  ): RetryPolicy | false {
+    if (override === false || (override === undefined && !this.retry)) {
+      return false;
+    }
+    return { ...(this.retry || {}), ...override };
+  }
+
+  /**
+   * Run a single request through the middleware chain and the fetch
+   * implementation
+   */
+  private dispatch(
+    kind: MiddlewareRequest["kind"],
+    url: string,
+    init: RequestInit,
+    onUploadProgress?: (loaded: number) => void
+  ): Promise<Response> {
+    const dispatch = (
+      index: number,
+      request: MiddlewareRequest
+    ): Promise<Response> => {
+      const middleware = this.middleware[index];
+      if (!middleware) {
+        return onUploadProgress
+          ? this.fetchWithUploadProgress(request, onUploadProgress)
+          : this.fetchImpl(request.url, request.init);
+      }
+      return middleware(request, (next) => dispatch(index + 1, next));
+    };
+    return dispatch(0, {
+      kind,
+      url,
+      init: { ...init, headers: new Headers(init.headers) },
+    });
+  }
+
+  /**
+   * Send a request while reporting upload progress of its body: through
+   * XMLHttpRequest in browsers, as a counted stream in Node.js, and
+   * otherwise once the request has completed.
+   */
+  private async fetchWithUploadProgress(
+    request: MiddlewareRequest,
+    onUploadProgress: (loaded: number) => void
+  ): Promise<Response> {
+    const { url, init } = request;
+    const body = init.body;
+    if (body instanceof ReadableStream) {
+      // Stream bodies carry their Content-Length from putContent
+      return this.fetchImpl(url, {
+        ...init,
+        body: contentStream(body, onUploadProgress),
+      });
+    }
+    if (!isStaticContent(body)) {
+      return this.fetchImpl(url, init);
+    }
+
+    // XMLHttpRequest would bypass a custom fetch implementation
+    if (!this.customFetch && typeof XMLHttpRequest !== "undefined") {
+      return xhrFetch(url, init, onUploadProgress);
+    }
+
+    const size = getContentSize(body);
+    if (supportsRequestStreams()) {
+      // Signed URLs reject chunked uploads, so keep the length explicit
+      init.headers.set("Content-Length", String(size));
+      return this.fetchImpl(url, {
+        ...init,
+        body: contentStream(body, onUploadProgress),
+        duplex: "half",
+      } as RequestInit);
+    }
+
+    const response = await this.fetchImpl(url, init);
+    onUploadProgress(size);
+    return response;
+  }
+
+  /**
+   * Set or update the authentication token or token provider
+   */
+  setToken(token: string | TokenProvider): void {
     this.token = token;
   }
 
+  /**
+   * Resolve the current authentication token
+   */
+  private async getToken(): Promise<string | undefined> {
+    if (typeof this.token === "function") {
+      return (await this.token()) || undefined;
+    }
+    return this.token;
+  }
+
   /**
    * Get authorization headers
    */
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
+  private getHeaders(token: string | undefined): Record<string, string> {
+    const headers: Record<string, string> = {
       "Content-Type": "application/json",
     };
-    if (this.token) {
-      headers["Authorization"] = `Bearer ${this.token}`;
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
     }
     return headers;
   }
 
   /**
-   * Make an authenticated request to dserver
+   * Run the configured refresh callback. Concurrent 401s share a single
+   * refresh, and a 401 for a token that has already been replaced does not
+   * trigger another one.
    */
-  private async request<T>(
+  private refreshToken(staleToken: string | undefined): Promise<void> {
+    if (!this.tokenRefresh) {
+      const refresh = this.refreshTokenImpl!;
+      this.tokenRefresh = (async () => {
+        if ((await this.getToken()) !== staleToken) {
+          return;
+        }
+        const token = await refresh();
+        if (typeof token === "string" && typeof this.token !== "function") {
+          this.token = token;
+        }
+      })().finally(() => {
+        this.tokenRefresh = undefined;
+      });
+    }
+    return this.tokenRefresh;
+  }
+
+  /**
+   * Send an authenticated request to dserver and return the successful
+   * response. A 401 triggers one token refresh and replay when a refresh
+   * callback is configured; other failures throw a typed error.
+   */
+  private async fetchApi(
     method: string,
     path: string,
     body?: unknown,
-    signal?: AbortSignal
-  ): Promise<T> {
+    options: ApiRequestOptions = {}
+  ): Promise<Response> {
     const url = `${this.baseUrl}${path}`;
-    const options: RequestInit = {
-      method,
-      headers: this.getHeaders(),
-      signal,
+    const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.has(method);
+    const retry = idempotent ? this.resolveRetry(options.retry) : false;
+    const send = async (token: string | undefined) => {
+      const init: RequestInit = {
+        method,
+        headers: this.getHeaders(token),
+        signal: options.signal,
+      };
+      if (body !== undefined) {
+        init.body = JSON.stringify(body);
+      }
+      return this.send("api", url, init, retry);
     };
 
-    if (body !== undefined) {
-      options.body = JSON.stringify(body);
-    }
+    const token = await this.getToken();
+    let response = await send(token);
 
-    const response = await this.fetchImpl(url, options);
+    if (response.status === 401 && this.refreshTokenImpl) {
+      await this.refreshToken(token);
+      response = await send(await this.getToken());
+    }
 
     if (!response.ok) {
       return this.handleErrorResponse(response);
     }
+    return response;
+  }
+
+  /**
+   * Make an authenticated request to dserver
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    options: ApiRequestOptions = {}
+  ): Promise<T> {
+    const response = await this.fetchApi(method, path, body, options);
 
     // Some endpoints (e.g. user PUT/DELETE) return an empty body on success.
     const text = await response.text();
@@ -159,13 +563,25 @@ export class DServerClient {
    * Get signed URLs for reading an entire dataset
    *
    * @param uri - Dataset URI (e.g., "s3://bucket/uuid")
+   * @param options - Request options (signal, retry)
    * @returns Signed URLs for all dataset components
+   * @throws PluginNotAvailableError if the signed URL plugin is not installed
    */
-  async getDatasetSignedUrls(uri: string): Promise<DatasetSignedURLsResponse> {
+  async getDatasetSignedUrls(
+    uri: string,
+    options: RequestOptions = {}
+  ): Promise<DatasetSignedURLsResponse> {
     const encodedUri = encodeUri(uri);
-    return this.request<DatasetSignedURLsResponse>(
-      "GET",
-      `/signed-urls/dataset/${encodedUri}`
+    return this.withPlugin(
+      "signed-urls",
+      () =>
+        this.request<DatasetSignedURLsResponse>(
+          "GET",
+          `/signed-urls/dataset/${encodedUri}`,
+          undefined,
+          options
+        ),
+      options
     );
   }
 
@@ -174,16 +590,26 @@ export class DServerClient {
    *
    * @param uri - Dataset URI
    * @param identifier - Item identifier (SHA-1 hash of relpath)
+   * @param options - Request options (signal, retry)
    * @returns Signed URL for the item
+   * @throws PluginNotAvailableError if the signed URL plugin is not installed
    */
   async getItemSignedUrl(
     uri: string,
-    identifier: string
+    identifier: string,
+    options: RequestOptions = {}
   ): Promise<ItemSignedURLResponse> {
     const encodedUri = encodeUri(uri);
-    return this.request<ItemSignedURLResponse>(
-      "GET",
-      `/signed-urls/item/${encodedUri}/${identifier}`
+    return this.withPlugin(
+      "signed-urls",
+      () =>
+        this.request<ItemSignedURLResponse>(
+          "GET",
+          `/signed-urls/item/${encodedUri}/${identifier}`,
+          undefined,
+          options
+        ),
+      options
     );
   }
 
@@ -193,16 +619,19 @@ export class DServerClient {
    * @param baseUri - Base URI (e.g., "s3://bucket")
    * @param request - Upload request with UUID, name, and items
    * @returns Signed URLs for uploading dataset components
+   * @throws PluginNotAvailableError if the signed URL plugin is not installed
    */
   async getUploadUrls(
     baseUri: string,
     request: UploadRequest
   ): Promise<UploadURLsResponse> {
     const encodedBaseUri = encodeUri(baseUri);
-    return this.request<UploadURLsResponse>(
-      "POST",
-      `/signed-urls/upload/${encodedBaseUri}`,
-      request
+    return this.withPlugin("signed-urls", () =>
+      this.request<UploadURLsResponse>(
+        "POST",
+        `/signed-urls/upload/${encodedBaseUri}`,
+        request
+      )
     );
   }
 
@@ -211,13 +640,64 @@ export class DServerClient {
    *
    * @param uri - Dataset URI
    * @returns Registration result
+   * @throws PluginNotAvailableError if the signed URL plugin is not installed
    */
   async signalUploadComplete(uri: string): Promise<UploadCompleteResponse> {
     const request: UploadCompleteRequest = { uri };
-    return this.request<UploadCompleteResponse>(
-      "POST",
-      `/signed-urls/upload-complete`,
-      request
+    return this.withPlugin("signed-urls", () =>
+      this.request<UploadCompleteResponse>(
+        "POST",
+        `/signed-urls/upload-complete`,
+        request
+      )
+    );
+  }
+
+  /**
+   * Open a session on a dataset that renews its signed URLs automatically
+   *
+   * @param uri - Dataset URI (e.g., "s3://bucket/uuid")
+   * @param options - Session options
+   * @returns Dataset session; URLs are fetched lazily on first use
+   */
+  openDataset(uri: string, options: DatasetSessionOptions = {}): DatasetSession {
+    return new DatasetSession(this, uri, options);
+  }
+
+  /**
+   * Start a staged dataset upload, like a dtool proto-dataset
+   *
+   * Items, README, tags and annotations are collected on the returned
+   * ProtoDataset; nothing is uploaded until `freeze()` is called.
+   *
+   * @param baseUri - Base URI (e.g., "s3://bucket")
+   * @param name - Dataset name
+   * @param options - UUID, creator and initial metadata
+   * @returns Proto-dataset with a new UUID
+   */
+  createProtoDataset(
+    baseUri: string,
+    name: string,
+    options: ProtoDatasetOptions = {}
+  ): ProtoDataset {
+    return new ProtoDataset(this, baseUri, name, options);
+  }
+
+  /**
+   * Complete a multipart item upload after all parts have been uploaded
+   *
+   * @param request - Upload ID and the uploaded parts of the item
+   * @throws PluginNotAvailableError if the signed URL plugin is not installed
+   */
+  async completeMultipartUpload(
+    request: MultipartCompleteRequest
+  ): Promise<void> {
+    await this.withPlugin("signed-urls", () =>
+      this.request<void>(
+        "POST",
+        `/signed-urls/upload-multipart-complete`,
+        request
+      )
     );
   }
 
@@ -228,65 +708,255 @@ export class DServerClient {
   /**
    * Download a dataset item using its signed URL
    *
-   * @param urls - Signed URLs response from getDatasetSignedUrls
+   * The item is buffered in memory; use streamItem for large items. Pass
+   * `range` to fetch only part of the item and `resumeAttempts` to continue
+   * an interrupted transfer from the last received byte.
+   *
+   * @param urls - Signed URLs from getDatasetSignedUrls or getItemSignedUrl
    * @param identifier - Item identifier
    * @param options - Download options
    * @returns Item content as ArrayBuffer
    */
   async downloadItem(
-    urls: DatasetSignedURLsResponse,
+    urls: DatasetSignedURLsResponse | ItemSignedURLResponse,
     identifier: string,
     options: DownloadOptions = {}
   ): Promise<ArrayBuffer> {
-    const itemUrl = urls.item_urls[identifier];
+    const { stream, length } = await this.openItemStream(
+      urls,
+      identifier,
+      options
+    );
+    return readStream(stream, length);
+  }
+
+  /**
+   * Stream a dataset item using its signed URL
+   *
+   * The returned stream can be piped to a file, decoder or parser without
+   * holding the whole item in memory. Progress is reported as chunks are
+   * read, and aborting the signal errors the stream.
+   *
+   * @param urls - Signed URLs from getDatasetSignedUrls or getItemSignedUrl
+   * @param identifier - Item identifier
+   * @param options - Download options
+   * @returns Item content as a stream of bytes
+   */
+  async streamItem(
+    urls: DatasetSignedURLsResponse | ItemSignedURLResponse,
+    identifier: string,
+    options: DownloadOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    const { stream } = await this.openItemStream(urls, identifier, options);
+    return stream;
+  }
+
+  /**
+   * Open an item for reading, honouring the requested byte range.
+   *
+   * If storage ignores the Range header and answers 200 with the full item,
+   * the bytes before the range are skipped and the rest is cut off locally.
+   * A read error (or a body that ends early) is followed by a new request
+   * starting at the next byte, up to `resumeAttempts` times.
+   *
+   * @returns The byte stream and the expected number of bytes (0 if unknown)
+   */
+  private async openItemStream(
+    urls: DatasetSignedURLsResponse | ItemSignedURLResponse,
+    identifier: string,
+    options: DownloadOptions
+  ): Promise<{ stream: ReadableStream<Uint8Array>; length: number }> {
+    const itemUrl =
+      "item_urls" in urls
+        ? urls.item_urls[identifier]
+        : urls.identifier === identifier
+          ? urls.url
+          : undefined;
     if (!itemUrl) {
       throw new NotFoundError(`Item ${identifier} not found in dataset`);
     }
-
-    const response = await this.fetchImpl(itemUrl, { signal: options.signal });
-    if (!response.ok) {
-      throw new DServerError(
-        `Failed to download item: ${response.statusText}`,
-        response.status
+    const verification = options.verify
+      ? await this.prepareVerification(urls, identifier, options)
+      : undefined;
+
+    const start = options.range?.start ?? 0;
+    const end = options.range?.end;
+    const retry = this.resolveRetry(options.retry);
+    let resumesLeft = options.resumeAttempts ?? 0;
+    let received = 0;
+
+    const open = async () => {
+      const from = start + received;
+      const headers: Record<string, string> = {};
+      if (from > 0 || end !== undefined) {
+        headers["Range"] = `bytes=${from}-${end !== undefined ? end - 1 : ""}`;
+      }
+      const response = await this.send(
+        "storage",
+        itemUrl,
+        { headers, signal: options.signal },
+        retry
       );
-    }
-
-    if (options.onProgress && response.body) {
-      const reader = response.body.getReader();
-      const contentLength = Number(response.headers.get("Content-Length")) || 0;
-      const chunks: Uint8Array[] = [];
-      let receivedLength = 0;
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        chunks.push(value);
-        receivedLength += value.length;
-        options.onProgress(receivedLength, contentLength, identifier);
+      if (!response.ok) {
+        await this.handleStorageErrorResponse(
+          response,
+          `Failed to download item: ${response.statusText}`
+        );
       }
+      if (!response.body) {
+        throw new DServerError(
+          `No response body for item ${identifier}`,
+          response.status
+        );
+      }
+      const contentLength = Number(response.headers.get("Content-Length")) || 0;
+      const partial = response.status === 206;
+      return {
+        reader: response.body.getReader(),
+        // Bytes to drop when storage sent the item from the beginning
+        skip: partial ? 0 : from,
+        remaining: partial
+          ? contentLength
+          : Math.max(0, (end ?? contentLength) - from),
+      };
+    };
 
-      const result = new Uint8Array(receivedLength);
-      let position = 0;
-      for (const chunk of chunks) {
-        result.set(chunk, position);
-        position += chunk.length;
+    let current = await open();
+    const length = current.remaining;
+
+    const reopen = async (error?: unknown) => {
+      if (resumesLeft <= 0 || options.signal?.aborted) {
+        if (error !== undefined) throw error;
+        return false;
       }
-      return result.buffer;
+      resumesLeft--;
+      current.reader.cancel().catch(() => undefined);
+      current = await open();
+      return true;
+    };
+
+    let stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        while (true) {
+          let result: ReadableStreamReadResult<Uint8Array>;
+          try {
+            result = await current.reader.read();
+          } catch (error) {
+            await reopen(error);
+            continue;
+          }
+
+          if (result.done) {
+            if (length > 0 && received < length) {
+              if (await reopen()) {
+                continue;
+              }
+              options.signal?.throwIfAborted();
+              controller.error(
+                new DServerError(
+                  `Download of item ${identifier} ended after ${received} of ${length} bytes`
+                )
+              );
+              return;
+            }
+            controller.close();
+            return;
+          }
+
+          let chunk = result.value;
+          if (current.skip > 0) {
+            const skipped = Math.min(current.skip, chunk.length);
+            current.skip -= skipped;
+            chunk = chunk.subarray(skipped);
+          }
+          if (end !== undefined) {
+            chunk = chunk.subarray(0, end - start - received);
+          }
+          if (chunk.length === 0) {
+            if (end !== undefined && received >= end - start) {
+              await current.reader.cancel();
+              controller.close();
+              return;
+            }
+            continue;
+          }
+
+          received += chunk.length;
+          controller.enqueue(chunk);
+          return;
+        }
+      },
+      cancel(reason) {
+        return current.reader.cancel(reason);
+      },
+    });
+
+    if (verification) {
+      stream = verifyStream(
+        stream,
+        identifier,
+        verification.item,
+        verification.hasher
+      );
     }
+    if (options.onProgress) {
+      stream = trackProgress(stream, length, options.onProgress, identifier);
+    }
+    return { stream, length };
+  }
 
-    return response.arrayBuffer();
+  /**
+   * Look up the manifest entry and hasher for verifying an item download
+   */
+  private async prepareVerification(
+    urls: DatasetSignedURLsResponse | ItemSignedURLResponse,
+    identifier: string,
+    options: DownloadOptions
+  ): Promise<{ item: ManifestItem; hasher: IncrementalHasher }> {
+    if (options.range) {
+      throw new DServerError("Cannot verify a byte range of an item");
+    }
+    let manifest: Manifest;
+    if (typeof options.verify === "object") {
+      manifest = options.verify;
+    } else if ("manifest_url" in urls) {
+      manifest = await this.downloadManifest(urls, options);
+    } else {
+      throw new DServerError(
+        "Verifying a single-item download needs the manifest; pass it as `verify`"
+      );
+    }
+
+    const item = manifest.items[identifier];
+    if (!item) {
+      throw new NotFoundError(`Item ${identifier} not found in manifest`);
+    }
+    const hasher = createHasher(manifest.hash_function);
+    if (!hasher) {
+      throw new DServerError(
+        `Unsupported hash function for verification: ${manifest.hash_function}`
+      );
+    }
+    return { item, hasher };
   }
 
   /**
    * Download and parse the dataset manifest
    *
    * @param urls - Signed URLs response
+   * @param options - Request options (signal, retry)
    * @returns Parsed manifest
    */
-  async downloadManifest(urls: DatasetSignedURLsResponse): Promise<Manifest> {
-    const response = await this.fetchImpl(urls.manifest_url);
+  async downloadManifest(
+    urls: DatasetSignedURLsResponse,
+    options: RequestOptions = {}
+  ): Promise<Manifest> {
+    const response = await this.sendStorageGet(urls.manifest_url, options);
     if (!response.ok) {
-      throw new DServerError("Failed to download manifest", response.status);
+      await this.handleStorageErrorResponse(
+        response,
+        "Failed to download manifest"
+      );
     }
     return response.json();
   }
@@ -295,16 +965,21 @@ export class DServerClient {
    * Download and parse the dataset admin metadata
    *
    * @param urls - Signed URLs response
+   * @param options - Request options (signal, retry)
    * @returns Parsed admin metadata
    */
   async downloadAdminMetadata(
-    urls: DatasetSignedURLsResponse
+    urls: DatasetSignedURLsResponse,
+    options: RequestOptions = {}
   ): Promise<AdminMetadata> {
-    const response = await this.fetchImpl(urls.admin_metadata_url);
+    const response = await this.sendStorageGet(
+      urls.admin_metadata_url,
+      options
+    );
     if (!response.ok) {
-      throw new DServerError(
-        "Failed to download admin metadata",
-        response.status
+      await this.handleStorageErrorResponse(
+        response,
+        "Failed to download admin metadata"
       );
     }
     return response.json();
@@ -314,12 +989,19 @@ export class DServerClient {
    * Download the dataset README
    *
    * @param urls - Signed URLs response
+   * @param options - Request options (signal, retry)
    * @returns README content as string
    */
-  async downloadReadme(urls: DatasetSignedURLsResponse): Promise<string> {
-    const response = await this.fetchImpl(urls.readme_url);
+  async downloadReadme(
+    urls: DatasetSignedURLsResponse,
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const response = await this.sendStorageGet(urls.readme_url, options);
     if (!response.ok) {
-      throw new DServerError("Failed to download README", response.status);
+      await this.handleStorageErrorResponse(
+        response,
+        "Failed to download README"
+      );
     }
     return response.text();
   }
@@ -329,19 +1011,24 @@ export class DServerClient {
    *
    * @param urls - Signed URLs response
    * @param overlayName - Name of the overlay
+   * @param options - Request options (signal, retry)
    * @returns Overlay data
    */
   async downloadOverlay(
     urls: DatasetSignedURLsResponse,
-    overlayName: string
+    overlayName: string,
+    options: RequestOptions = {}
   ): Promise<Record<string, unknown>> {
     const overlayUrl = urls.overlay_urls[overlayName];
     if (!overlayUrl) {
       throw new NotFoundError(`Overlay ${overlayName} not found`);
     }
-    const response = await this.fetchImpl(overlayUrl);
+    const response = await this.sendStorageGet(overlayUrl, options);
     if (!response.ok) {
-      throw new DServerError("Failed to download overlay", response.status);
+      await this.handleStorageErrorResponse(
+        response,
+        "Failed to download overlay"
+      );
     }
     return response.json();
   }
@@ -351,161 +1038,877 @@ export class DServerClient {
    *
    * @param urls - Signed URLs response
    * @param annotationName - Name of the annotation
+   * @param options - Request options (signal, retry)
    * @returns Annotation value
    */
   async downloadAnnotation(
     urls: DatasetSignedURLsResponse,
-    annotationName: string
+    annotationName: string,
+    options: RequestOptions = {}
   ): Promise<unknown> {
     const annotationUrl = urls.annotation_urls[annotationName];
     if (!annotationUrl) {
       throw new NotFoundError(`Annotation ${annotationName} not found`);
     }
-    const response = await this.fetchImpl(annotationUrl);
+    const response = await this.sendStorageGet(annotationUrl, options);
     if (!response.ok) {
-      throw new DServerError("Failed to download annotation", response.status);
+      await this.handleStorageErrorResponse(
+        response,
+        "Failed to download annotation"
+      );
     }
     return response.json();
   }
 
+  /**
+   * GET a signed URL with the retry policy for the call
+   */
+  private sendStorageGet(
+    url: string,
+    options: RequestOptions
+  ): Promise<Response> {
+    return this.send(
+      "storage",
+      url,
+      { signal: options.signal },
+      this.resolveRetry(options.retry)
+    );
+  }
+
+  /**
+   * Throw a typed error for a failed signed-URL transfer. Storage reports
+   * expired or otherwise rejected signatures as 403, which callers such as
+   * DatasetSession use as the cue to renew their URLs.
+   */
+  private async handleStorageErrorResponse(
+    response: Response,
+    message: string
+  ): Promise<never> {
+    const body = await response.text().catch(() => undefined);
+    if (response.status === 403) {
+      throw new SignedURLExpiredError(message, body);
+    }
+    throw new DServerError(message, response.status, response.statusText, body);
+  }
+
   // =========================================================================
   // High-level upload operations
   // =========================================================================
 
   /**
-   * Create and upload a new dataset
-   *
-   * The server handles admin_metadata, manifest, structure, tags, and annotations
-   * directly based on metadata sent in the upload request. We only need to upload
-   * README and item files.
-   *
-   * @param baseUri - Base URI (e.g., "s3://bucket")
-   * @param name - Dataset name
-   * @param files - Files to upload
-   * @param options - Upload options (readme, tags, annotations)
-   * @returns Upload completion response
+   * Create and upload a new dataset
+   *
+   * The server handles admin_metadata, manifest, structure, tags, and annotations
+   * directly based on metadata sent in the upload request. We only need to upload
+   * README and item files.
+   *
+   * The file list is validated first (see `validateFiles`): relpaths are
+   * normalized, and a FileValidationError is thrown before anything is
+   * uploaded if the list has errors. With `readmeSchema`, the README is
+   * checked too and a ReadmeValidationError is thrown if it does not match.
+   *
+   * With `options.journal`, the upload state is recorded as it progresses,
+   * so an interrupted upload can be continued with `resumeUpload`.
+   *
+   * Failed items are retried with backoff (`itemRetries`). Items that still
+   * fail do not stop the others; once all items have been tried, an
+   * UploadIncompleteError lists the succeeded and failed relpaths and
+   * carries the journal to retry the failed ones with `resumeUpload`.
+   *
+   * @param baseUri - Base URI (e.g., "s3://bucket")
+   * @param name - Dataset name
+   * @param files - Files to upload
+   * @param options - Upload options (readme, tags, annotations)
+   * @returns Upload completion response
+   */
+  async createDataset(
+    baseUri: string,
+    name: string,
+    files: FileToUpload[],
+    options: UploadOptions = {}
+  ): Promise<UploadCompleteResponse> {
+    return this.uploadDataset(baseUri, name, files, options);
+  }
+
+  /**
+   * Hash, upload and register a dataset; `checks` can stop the upload
+   * before an item is committed
+   */
+  private async uploadDataset(
+    baseUri: string,
+    name: string,
+    files: FileToUpload[],
+    options: UploadOptions,
+    checks: UploadChecks = {}
+  ): Promise<UploadCompleteResponse> {
+    files = requireValidFiles(files);
+    const readme = readmeText(options.readme ?? "");
+    if (options.readmeSchema) {
+      requireValidReadme(readme, options.readmeSchema);
+    }
+    const uuid = options.uuid ?? generateUUID();
+    const token = await this.getToken();
+    const creatorUsername =
+      options.creatorUsername ??
+      ((token && getJwtSubject(token)) || "webapp-user");
+    const frozenAt = options.frozenAt ?? getCurrentTimestamp();
+
+    // Build item metadata with identifiers and hashes. Content is hashed in
+    // chunks and only a few files at a time, so memory use stays bounded.
+    // Files with a declared hash are not read at all.
+    const progress = new UploadProgressTracker(options);
+    let bytesToHash = 0;
+    for (const file of files) {
+      const size = getKnownSize(file);
+      progress.addItem(file.relpath, size);
+      if (file.hash === undefined) {
+        bytesToHash += size ?? 0;
+      }
+    }
+    progress.startPhase("hashing", 0, bytesToHash);
+    const items = await parallelLimit(
+      files,
+      options.hashConcurrency ?? 2,
+      async (file): Promise<UploadItem> => {
+        const declaredSize = getKnownSize(file);
+        if (file.hash !== undefined && declaredSize !== undefined) {
+          return {
+            relpath: file.relpath,
+            size_in_bytes: declaredSize,
+            hash: file.hash,
+            utc_timestamp: frozenAt,
+          };
+        }
+
+        progress.setState(file.relpath, "hashing");
+        const { size, hash } = await hashContent(
+          file.content,
+          (bytes) => progress.hashed(file.relpath, bytes),
+          options.signal
+        );
+        if (declaredSize !== undefined && size !== declaredSize) {
+          throw new DServerError(
+            `${file.relpath} has ${size} bytes, but ${declaredSize} were declared`
+          );
+        }
+        progress.setState(file.relpath, "pending");
+        return {
+          relpath: file.relpath,
+          size_in_bytes: size,
+          hash,
+          utc_timestamp: frozenAt,
+        };
+      }
+    );
+
+    // Items at or above the threshold are uploaded in parts
+    const multipartThreshold =
+      options.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD;
+    const multipartItems = items
+      .filter((item) => item.size_in_bytes >= multipartThreshold)
+      .map((item) => item.relpath);
+
+    const journal: UploadJournal = {
+      version: 1,
+      key: options.journalKey ?? uuid,
+      base_uri: baseUri,
+      request: {
+        uuid,
+        name,
+        creator_username: creatorUsername,
+        frozen_at: frozenAt,
+        items,
+        tags: options.tags,
+        annotations: options.annotations,
+        ...(multipartItems.length > 0 && {
+          multipart_items: multipartItems,
+          multipart_part_size:
+            options.multipartPartSize ?? DEFAULT_MULTIPART_PART_SIZE,
+        }),
+      },
+      readme: readme || EMPTY_README,
+      readme_uploaded: false,
+      completed: [],
+    };
+
+    return this.runUpload(journal, files, options, progress, checks);
+  }
+
+  /**
+   * Resume an interrupted dataset upload from its journal
+   *
+   * Items recorded as uploaded are skipped. If the signed upload URLs have
+   * expired, new ones are requested for the same dataset UUID. The files
+   * must be passed again because their content is not part of the journal;
+   * they are matched by relpath and checked against the recorded sizes.
+   *
+   * @param journal - Journal key in `options.journal`, or the journal itself
+   * @param files - Files of the dataset (completed items may be omitted)
+   * @param options - Upload options; pass `journal` to keep recording progress
+   * @returns Upload completion response
+   */
+  async resumeUpload(
+    journal: string | UploadJournal,
+    files: FileToUpload[],
+    options: UploadOptions = {}
+  ): Promise<UploadCompleteResponse> {
+    let record: UploadJournal | undefined;
+    if (typeof journal === "string") {
+      if (!options.journal) {
+        throw new DServerError("Resuming by key needs a journal store");
+      }
+      record = await options.journal.load(journal);
+      if (!record) {
+        throw new NotFoundError(`No upload journal ${journal}`);
+      }
+    } else {
+      record = journal;
+    }
+
+    files = requireValidFiles(files);
+    const filesByRelpath = new Map(files.map((file) => [file.relpath, file]));
+    const completed = new Set(record.completed);
+    for (const item of record.request.items ?? []) {
+      if (completed.has(item.relpath)) continue;
+      const file = filesByRelpath.get(item.relpath);
+      if (!file) {
+        throw new DServerError(`Missing file for pending item ${item.relpath}`);
+      }
+      const size = getKnownSize(file);
+      if (size !== undefined && size !== item.size_in_bytes) {
+        throw new DServerError(
+          `File ${item.relpath} changed since the upload started`
+        );
+      }
+    }
+
+    const progress = new UploadProgressTracker(options);
+    for (const item of record.request.items ?? []) {
+      progress.addItem(
+        item.relpath,
+        item.size_in_bytes,
+        completed.has(item.relpath) ? "done" : "pending"
+      );
+    }
+    return this.runUpload(record, files, options, progress);
+  }
+
+  /**
+   * Copy a dataset to another base URI, keeping its identity
+   *
+   * The source is read through its signed URLs and uploaded with the same
+   * UUID, name, creator, freeze time, README, tags, annotations and item
+   * hashes, so both copies are found by `getDatasetsByUuid`. Items are
+   * streamed from the source and checked against the source manifest while
+   * they are transferred, without being held in memory. Parts of multipart
+   * items are downloaded as byte ranges and hashed as they stream, and each
+   * such item is checked before its upload is completed. With `verify`, the
+   * registered copy is read back: its metadata is compared with the source,
+   * and every item is downloaded again and checked against the source
+   * manifest.
+   *
+   * @param sourceUri - URI of the dataset to copy
+   * @param targetBaseUri - Base URI to copy the dataset to
+   * @param options - Upload options and whether to verify the copy
+   * @returns Upload completion response of the copy
+   * @throws IntegrityError if the registered copy differs from the source
+   * @throws UploadIncompleteError if items could not be copied, e.g. because
+   *   they differ from the source manifest
+   *
+   * @example
+   * ```typescript
+   * const copy = await client.copyDataset(
+   *   "s3://scratch/1a1f9fad-8589-413e-9602-5bbd66bfe675",
+   *   "s3://archive"
+   * );
+   * console.log(copy.uri); // s3://archive/1a1f9fad-8589-413e-9602-5bbd66bfe675
+   * ```
+   */
+  async copyDataset(
+    sourceUri: string,
+    targetBaseUri: string,
+    options: CopyDatasetOptions = {}
+  ): Promise<UploadCompleteResponse> {
+    const { verify = true, ...uploadOptions } = options;
+    const source = this.openDataset(sourceUri, {
+      signal: options.signal,
+      retry: options.retry,
+    });
+    const [adminMetadata, manifest, readme] = await Promise.all([
+      source.downloadAdminMetadata(options),
+      source.downloadManifest(options),
+      source.downloadReadme(options),
+    ]);
+    if (adminMetadata.type !== "dataset") {
+      throw new DServerError(`${sourceUri} is not a frozen dataset`);
+    }
+    if (manifest.hash_function !== UPLOAD_HASH_FUNCTION) {
+      throw new DServerError(
+        `Cannot copy ${sourceUri}: items are hashed with ` +
+          `${manifest.hash_function}, but uploads use ${UPLOAD_HASH_FUNCTION}`
+      );
+    }
+    const urls = await source.getUrls();
+    const tags = [...urls.tags];
+    const annotations = await this.downloadAnnotations(source, options);
+
+    const itemOptions = { signal: options.signal, retry: options.retry };
+    // Parts of a multipart item are downloaded as byte ranges. They are
+    // hashed as they stream, and the item is checked against the source
+    // hash before its upload is completed.
+    const rangeHashers = new Map<string, RangeHasher>();
+    const files: FileToUpload[] = Object.entries(manifest.items).map(
+      ([identifier, item]) => ({
+        relpath: item.relpath,
+        size: item.size_in_bytes,
+        hash: item.hash,
+        content: () =>
+          source.streamItem(identifier, { ...itemOptions, verify: manifest }),
+        openRange: async (start: number, end: number) => {
+          let hasher = rangeHashers.get(item.relpath);
+          if (!hasher) {
+            hasher = new RangeHasher(() =>
+              createHasher(manifest.hash_function)!
+            );
+            rangeHashers.set(item.relpath, hasher);
+          }
+          const stream = await source.streamItem(identifier, {
+            ...itemOptions,
+            range: { start, end },
+          });
+          return hasher.track(stream, start, end);
+        },
+      })
+    );
+    const itemsByRelpath = new Map(
+      Object.entries(manifest.items).map(([identifier, item]) => [
+        item.relpath,
+        { identifier, item },
+      ])
+    );
+    const checkParts = (relpath: string): void => {
+      const { identifier, item } = itemsByRelpath.get(relpath)!;
+      const hash = rangeHashers.get(relpath)?.digest(item.size_in_bytes);
+      if (hash !== item.hash) {
+        throw new IntegrityError(
+          hash === undefined
+            ? `Parts of item ${relpath} were not all read before completing it`
+            : `Hash mismatch for item ${relpath}: expected ${item.hash}, ` +
+                `got ${hash}`,
+          identifier,
+          item.hash,
+          hash ?? ""
+        );
+      }
+    };
+
+    const result = await this.uploadDataset(
+      targetBaseUri,
+      adminMetadata.name,
+      files,
+      {
+        ...uploadOptions,
+        uuid: adminMetadata.uuid,
+        creatorUsername: adminMetadata.creator_username,
+        frozenAt: adminMetadata.frozen_at,
+        readme,
+        tags,
+        annotations,
+      },
+      { beforeCompleteItem: checkParts }
+    );
+    if (!verify) {
+      return result;
+    }
+
+    // Read the registered copy back: its metadata is compared with the
+    // source, and every item is downloaded and checked against the source
+    // manifest. A dataset without a README is uploaded with an empty YAML
+    // document, so READMEs are compared in that form.
+    const context = ` (the copy is registered at ${result.uri})`;
+    const copy = this.openDataset(result.uri, itemOptions);
+    const [copyAdminMetadata, copyManifest, copyReadme] = await Promise.all([
+      copy.downloadAdminMetadata(options),
+      copy.downloadManifest(options),
+      copy.downloadReadme(options),
+    ]);
+    const copyUrls = await copy.getUrls();
+    const copyAnnotations = await this.downloadAnnotations(copy, options);
+
+    const expect = (what: string, expected: unknown, actual: unknown): void => {
+      const a = JSON.stringify(expected);
+      const b = JSON.stringify(actual);
+      if (a !== b) {
+        throw new IntegrityError(
+          `Copy of ${sourceUri} differs in ${what}${context}`,
+          what,
+          a,
+          b
+        );
+      }
+    };
+    for (const key of ["uuid", "name", "creator_username", "frozen_at"]) {
+      expect(
+        `admin_metadata.${key}`,
+        adminMetadata[key],
+        copyAdminMetadata[key]
+      );
+    }
+    const copiedItems = new Map(
+      Object.values(copyManifest.items).map((item) => [item.relpath, item])
+    );
+    for (const item of Object.values(manifest.items)) {
+      const copied = copiedItems.get(item.relpath);
+      expect(
+        `item ${item.relpath}`,
+        [item.relpath, item.size_in_bytes, item.hash],
+        copied && [copied.relpath, copied.size_in_bytes, copied.hash]
+      );
+    }
+    expect("item count", Object.keys(manifest.items).length, copiedItems.size);
+    expect("README", readme || EMPTY_README, copyReadme || EMPTY_README);
+    expect("tags", [...tags].sort(), [...copyUrls.tags].sort());
+    expect("annotations", sortKeys(annotations), sortKeys(copyAnnotations));
+
+    await parallelLimit(
+      Object.keys(manifest.items),
+      options.concurrency ?? 4,
+      async (identifier) => {
+        try {
+          const stream = await copy.streamItem(identifier, {
+            ...itemOptions,
+            verify: manifest,
+          });
+          await stream.pipeTo(new WritableStream());
+        } catch (error) {
+          if (error instanceof IntegrityError) {
+            throw new IntegrityError(
+              `${error.message}${context}`,
+              error.identifier,
+              error.expected,
+              error.actual
+            );
+          }
+          throw error;
+        }
+      }
+    );
+    return result;
+  }
+
+  /**
+   * Create a dataset derived from other datasets, recording its provenance
+   *
+   * The sources are written to the README and annotations under the
+   * dependency keys (see `addProvenance`), so `getDependencyGraph` links
+   * the new dataset to them. Sources given as URIs are looked up through
+   * their admin metadata, or their registered entry with `verifySources`;
+   * sources given as UUIDs are recorded as they are, unless `verifySources`
+   * is set.
+   *
+   * @param baseUri - Base URI (e.g., "s3://bucket")
+   * @param name - Dataset name
+   * @param sources - URIs or UUIDs of the source datasets
+   * @param files - Files to upload
+   * @param options - Upload options, dependency keys and source verification
+   * @returns Upload completion response
+   * @throws NotFoundError if `verifySources` is set and a source is not registered
+   *
+   * @example
+   * ```typescript
+   * await client.createDerivedDataset(
+   *   "s3://bucket",
+   *   "processed",
+   *   ["s3://bucket/1a1f9fad-8589-413e-9602-5bbd66bfe675"],
+   *   files,
+   *   { readme: "---\ndescription: Filtered spectra\n" }
+   * );
+   * ```
+   */
+  async createDerivedDataset(
+    baseUri: string,
+    name: string,
+    sources: string[],
+    files: FileToUpload[],
+    options: DerivedDatasetOptions = {}
+  ): Promise<UploadCompleteResponse> {
+    const { dependencyKeys, verifySources, ...uploadOptions } = options;
+    if (sources.length === 0) {
+      throw new DServerError("A derived dataset needs at least one source");
+    }
+    const resolved = await parallelLimit(sources, 4, (source) =>
+      this.resolveDatasetSource(source, verifySources ?? false, options)
+    );
+    const { readme, annotations } = addProvenance(
+      options.readme ?? "",
+      options.annotations ?? {},
+      resolved,
+      dependencyKeys
+    );
+    return this.createDataset(baseUri, name, files, {
+      ...uploadOptions,
+      readme,
+      annotations:
+        Object.keys(annotations).length > 0 ? annotations : undefined,
+    });
+  }
+
+  /**
+   * Look up a source dataset given by URI or UUID
+   */
+  private async resolveDatasetSource(
+    source: string,
+    verify: boolean,
+    options: RequestOptions
+  ): Promise<DatasetSource> {
+    if (!source.includes("://")) {
+      if (!verify) {
+        return { uuid: source };
+      }
+      const [entry] = await this.getDatasetsByUuid(source, options);
+      if (!entry) {
+        throw new NotFoundError(`Source dataset ${source} not found`);
+      }
+      return { uuid: source, name: entry.name };
+    }
+
+    if (verify) {
+      const entry = await this.getDataset(source, options);
+      return { uuid: entry.uuid, name: entry.name, uri: source };
+    }
+    const adminMetadata = await this.openDataset(
+      source,
+      options
+    ).downloadAdminMetadata(options);
+    return { uuid: adminMetadata.uuid, name: adminMetadata.name, uri: source };
+  }
+
+  /**
+   * Download all annotations of a dataset
+   */
+  private async downloadAnnotations(
+    session: DatasetSession,
+    options: RequestOptions
+  ): Promise<Record<string, unknown>> {
+    const urls = await session.getUrls();
+    const names = Object.keys(urls.annotation_urls);
+    const values = await parallelLimit(names, 4, (name) =>
+      session.downloadAnnotation(name, options)
+    );
+    return Object.fromEntries(names.map((name, i) => [name, values[i]]));
+  }
+
+  /**
+   * Upload README and pending items of a journaled upload and register the
+   * dataset. Progress is saved to the journal store after every step and
+   * the journal is deleted once the dataset is registered.
    */
-  async createDataset(
-    baseUri: string,
-    name: string,
+  private async runUpload(
+    journal: UploadJournal,
     files: FileToUpload[],
-    options: UploadOptions = {}
+    options: UploadOptions,
+    progress: UploadProgressTracker,
+    checks: UploadChecks = {}
   ): Promise<UploadCompleteResponse> {
-    const uuid = generateUUID();
-    const creatorUsername =
-      (this.token && getJwtSubject(this.token)) || "webapp-user";
-    const frozenAt = getCurrentTimestamp();
-
-    // Build item metadata with identifiers and hashes
-    const itemsWithMetadata = await Promise.all(
-      files.map(async (file) => {
-        const identifier = await generateIdentifier(file.relpath);
-        const { size, hash } = await this.computeItemMetadata(file);
-        return {
-          ...file,
-          identifier,
-          size_in_bytes: size,
-          hash,
-          utc_timestamp: frozenAt,
-        };
-      })
-    );
+    const store = options.journal;
+    let saving = Promise.resolve();
+    let saveError: unknown;
+    const save = () => {
+      if (store) {
+        // Serialize writes so concurrent item uploads never interleave them.
+        // A failed write does not stop the upload; it is reported with an
+        // UploadIncompleteError, which carries the journal itself.
+        saving = saving
+          .then(() => store.save(journal.key, journal))
+          .catch((error) => {
+            saveError = saveError ?? error;
+          });
+      }
+      return saving;
+    };
 
-    // Request upload URLs - server writes metadata directly to storage
-    const uploadInfo = await this.getUploadUrls(baseUri, {
-      uuid,
-      name,
-      creator_username: creatorUsername,
-      frozen_at: frozenAt,
-      items: itemsWithMetadata.map((item) => ({
-        relpath: item.relpath,
-        size_in_bytes: item.size_in_bytes,
-        hash: item.hash,
-        utc_timestamp: item.utc_timestamp,
-      })),
-      tags: options.tags,
-      annotations: options.annotations,
-    });
+    // Request upload URLs - server writes metadata directly to storage.
+    // Expired URLs from an earlier attempt are replaced for the same UUID.
+    if (!journal.upload_info || uploadUrlsExpired(journal)) {
+      journal.upload_info = await this.getUploadUrls(
+        journal.base_uri,
+        journal.request
+      );
+      journal.upload_urls_fetched_at = Date.now();
+    }
+    await save();
+    const uploadInfo = journal.upload_info;
+
+    // Fail before uploading anything if a large item cannot be split, or
+    // its parts would not cover it
+    const items = journal.request.items ?? [];
+    const identifiers = new Map<string, string>();
+    for (const item of items) {
+      identifiers.set(item.relpath, await generateIdentifier(item.relpath));
+    }
+    const multipartItems = new Set(journal.request.multipart_items);
+    for (const item of items) {
+      const identifier = identifiers.get(item.relpath)!;
+      const multipart = uploadInfo.upload_urls.items[identifier]?.multipart;
+      if (multipart) {
+        checkMultipartParts(item, multipart);
+      } else if (multipartItems.has(item.relpath)) {
+        throw new DServerError(
+          `Server does not offer a multipart upload for ${item.relpath} ` +
+            `(${formatBytes(item.size_in_bytes)}); it is too large for a ` +
+            `single upload. Raise multipartThreshold or enable multipart ` +
+            `uploads on the server.`
+        );
+      }
+    }
 
-    const totalBytes = itemsWithMetadata.reduce(
-      (sum, item) => sum + item.size_in_bytes,
-      0
-    );
-    let uploadedBytes = 0;
+    const completed = new Set(journal.completed);
+    const totalBytes = items.reduce((sum, item) => sum + item.size_in_bytes, 0);
+    const uploadedBytes = items
+      .filter((item) => completed.has(item.relpath))
+      .reduce((sum, item) => sum + item.size_in_bytes, 0);
+    const filesByRelpath = new Map(files.map((file) => [file.relpath, file]));
+    const pending = items.filter((item) => !completed.has(item.relpath));
 
     // Upload README
-    const readme = options.readme || "---\n";
-    await this.uploadText(uploadInfo.upload_urls.readme, readme, options.signal);
+    if (!journal.readme_uploaded) {
+      progress.startPhase("uploading-readme", uploadedBytes, totalBytes);
+      await this.uploadText(
+        uploadInfo.upload_urls.readme,
+        journal.readme,
+        options
+      );
+      journal.readme_uploaded = true;
+      await save();
+    }
 
-    // Upload items in parallel with concurrency limit
-    await parallelLimit(itemsWithMetadata, 4, async (item) => {
-      const uploadUrl = uploadInfo.upload_urls.items[item.identifier];
+    // Upload items in parallel with concurrency limit. A failed item does
+    // not stop the others; failures are collected and reported at the end.
+    const failed: UploadItemFailure[] = [];
+    const itemRetries = options.itemRetries ?? 2;
+    const backoffPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      ...(this.resolveRetry(options.retry) || {}),
+    };
+    progress.startPhase("uploading-items", uploadedBytes, totalBytes);
+    await parallelLimit(pending, options.concurrency ?? 4, async (item) => {
+      const identifier = identifiers.get(item.relpath)!;
+      const uploadUrl = uploadInfo.upload_urls.items[identifier];
       if (!uploadUrl) {
-        throw new DServerError(
-          `No upload URL for item ${item.relpath}`,
-          500
-        );
-      }
-
-      let body: BodyInit;
-      if (item.content instanceof Blob) {
-        body = item.content;
-      } else if (item.content instanceof ArrayBuffer) {
-        body = item.content;
-      } else {
-        body = item.content;
+        progress.setState(item.relpath, "failed");
+        failed.push({
+          relpath: item.relpath,
+          error: new DServerError(
+            `No upload URL for item ${item.relpath}`,
+            500
+          ),
+        });
+        return;
       }
 
-      const response = await this.fetchImpl(uploadUrl.url, {
-        method: "PUT",
-        body,
-        headers: item.contentType
-          ? { "Content-Type": item.contentType }
-          : undefined,
-        signal: options.signal,
+      const file = filesByRelpath.get(item.relpath)!;
+      const readBody = createBodyReader({
+        ...file,
+        size_in_bytes: item.size_in_bytes,
       });
-
-      if (!response.ok) {
-        throw new DServerError(
-          `Failed to upload ${item.relpath}`,
-          response.status
+      let backoff = backoffPolicy.initialDelay;
+      for (let attempt = 0; ; attempt++) {
+        progress.setState(item.relpath, "uploading");
+        try {
+          await this.uploadItem(
+            uploadInfo.uri,
+            {
+              ...file,
+              identifier,
+              size_in_bytes: item.size_in_bytes,
+            },
+            uploadUrl,
+            options,
+            readBody,
+            (loaded) => progress.uploaded(item.relpath, loaded),
+            () => checks.beforeCompleteItem?.(item.relpath)
+          );
+          break;
+        } catch (error) {
+          progress.uploaded(item.relpath, 0);
+          // Expired URLs need a new set, which resumeUpload requests
+          const retryable =
+            !options.signal?.aborted &&
+            !(error instanceof SignedURLExpiredError);
+          if (!retryable || attempt >= itemRetries) {
+            progress.setState(item.relpath, "failed");
+            failed.push({ relpath: item.relpath, error });
+            return;
+          }
+        }
+        await delay(backoff, options.signal).catch(() => undefined);
+        backoff = Math.min(
+          backoff * backoffPolicy.backoffFactor,
+          backoffPolicy.maxDelay
         );
       }
-
-      uploadedBytes += item.size_in_bytes;
-      options.onProgress?.(uploadedBytes, totalBytes, item.relpath);
+      progress.setState(item.relpath, "done");
+      journal.completed.push(item.relpath);
+      await save();
     });
+    await saving;
+
+    options.signal?.throwIfAborted();
+    if (failed.length > 0) {
+      const relpaths = failed.map((failure) => failure.relpath);
+      throw new UploadIncompleteError(
+        `Upload of ${failed.length} of ${items.length} items failed: ` +
+          `${relpaths.slice(0, 5).join(", ")}` +
+          (relpaths.length > 5 ? ", ..." : "") +
+          (saveError !== undefined
+            ? "; the upload journal could not be saved: " +
+              (saveError instanceof Error ? saveError.message : saveError)
+            : ""),
+        [...journal.completed],
+        failed,
+        journal,
+        saveError
+      );
+    }
 
     // Signal upload complete
-    return this.signalUploadComplete(uploadInfo.uri);
+    progress.startPhase("finalizing", totalBytes, totalBytes);
+    const result = await this.signalUploadComplete(uploadInfo.uri);
+    await saving;
+    // The dataset is registered; a journal that cannot be deleted is stale
+    // but harmless, so it does not fail the upload
+    await store?.delete(journal.key).catch(() => undefined);
+    progress.startPhase("complete", totalBytes, totalBytes);
+    return result;
   }
 
   /**
-   * Compute size and hash for a file item
+   * Upload a single item, in parts if the server set up a multipart upload
+   *
+   * @param onProgress - Called with the number of item bytes uploaded so far
+   * @param beforeComplete - Called before a multipart upload is completed
    */
-  private async computeItemMetadata(
-    item: FileToUpload
-  ): Promise<{ size: number; hash: string }> {
-    let size: number;
-    let contentBuffer: ArrayBuffer;
+  private async uploadItem(
+    uri: string,
+    item: FileToUpload & { identifier: string; size_in_bytes: number },
+    uploadUrl: UploadItemURL,
+    options: UploadOptions,
+    readBody: (start: number, end: number) => Promise<UploadBody>,
+    onProgress: (loaded: number) => void,
+    beforeComplete?: () => void
+  ): Promise<void> {
+    // Byte-level progress changes how bodies are sent, so only ask for it
+    // when someone listens
+    const reportBytes = Boolean(options.onProgress || options.onUploadProgress);
+    const multipart = uploadUrl.multipart;
+    if (!multipart) {
+      await this.putContent(
+        uploadUrl.url,
+        () => readBody(0, item.size_in_bytes),
+        `Failed to upload ${item.relpath}`,
+        options,
+        {
+          contentType: item.contentType,
+          size: item.size_in_bytes,
+          onProgress: reportBytes ? onProgress : undefined,
+        }
+      );
+      onProgress(item.size_in_bytes);
+      return;
+    }
 
-    if (item.content instanceof Blob) {
-      size = item.content.size;
-      contentBuffer = await item.content.arrayBuffer();
-    } else if (item.content instanceof ArrayBuffer) {
-      size = item.content.byteLength;
-      contentBuffer = item.content;
-    } else {
-      const encoded = new TextEncoder().encode(item.content);
-      size = encoded.length;
-      contentBuffer = encoded.buffer;
+    // Parts are uploaded one after another; each is retried on its own.
+    const parts = [...multipart.parts].sort(
+      (a, b) => a.part_number - b.part_number
+    );
+    const completed: CompletedPart[] = [];
+    let partsLoaded = 0;
+    for (const part of parts) {
+      const start = (part.part_number - 1) * multipart.part_size;
+      const end = Math.min(start + multipart.part_size, item.size_in_bytes);
+      const response = await this.putContent(
+        part.url,
+        () => readBody(start, end),
+        `Failed to upload part ${part.part_number} of ${item.relpath}`,
+        options,
+        {
+          size: end - start,
+          onProgress: reportBytes
+            ? (loaded) => onProgress(partsLoaded + loaded)
+            : undefined,
+        }
+      );
+      const etag = response.headers.get("ETag");
+      completed.push({
+        part_number: part.part_number,
+        ...(etag && { etag }),
+      });
+      partsLoaded += end - start;
+      onProgress(partsLoaded);
     }
 
-    // Calculate MD5 hash. WebCrypto does not support MD5, so use spark-md5;
-    // dtool manifests record MD5 digests, so the hash function must match.
-    const hash = SparkMD5.ArrayBuffer.hash(contentBuffer);
+    beforeComplete?.();
+    await this.completeMultipartUpload({
+      uri,
+      identifier: item.identifier,
+      upload_id: multipart.upload_id,
+      parts: completed,
+    });
+  }
+
+  /**
+   * PUT content to a signed URL with the retry policy for the call,
+   * optionally reporting the body bytes sent. A body function is called
+   * for every attempt; stream bodies need their `size`.
+   */
+  private async putContent(
+    url: string,
+    body: UploadBody | (() => Promise<UploadBody>),
+    message: string,
+    options: RequestOptions,
+    transfer: {
+      contentType?: string;
+      size?: number;
+      onProgress?: (loaded: number) => void;
+    } = {}
+  ): Promise<Response> {
+    const makeInit = async (): Promise<RequestInit> => {
+      const content = typeof body === "function" ? await body() : body;
+      const headers = new Headers();
+      if (transfer.contentType) {
+        headers.set("Content-Type", transfer.contentType);
+      }
+      if (!(content instanceof ReadableStream)) {
+        return {
+          method: "PUT",
+          body: content,
+          headers,
+          signal: options.signal,
+        };
+      }
+      // Signed URLs reject chunked uploads, so keep the length explicit
+      headers.set("Content-Length", String(transfer.size));
+      return {
+        method: "PUT",
+        body: content,
+        headers,
+        signal: options.signal,
+        duplex: "half",
+      } as RequestInit;
+    };
+
+    const response = await this.send(
+      "storage",
+      url,
+      makeInit,
+      this.resolveRetry(options.retry),
+      transfer.onProgress
+    );
 
-    return { size, hash };
+    if (!response.ok) {
+      await this.handleStorageErrorResponse(response, message);
+    }
+    return response;
   }
 
   /**
@@ -514,17 +1917,129 @@ export class DServerClient {
   private async uploadText(
     url: string,
     text: string,
-    signal?: AbortSignal
+    options: RequestOptions = {}
   ): Promise<void> {
-    const response = await this.fetchImpl(url, {
-      method: "PUT",
-      body: text,
-      headers: { "Content-Type": "text/plain; charset=utf-8" },
-      signal,
+    await this.putContent(url, text, "Failed to upload text", options, {
+      contentType: "text/plain; charset=utf-8",
     });
+  }
 
-    if (!response.ok) {
-      throw new DServerError("Failed to upload text", response.status);
+  // =========================================================================
+  // Server Capabilities
+  // =========================================================================
+
+  /**
+   * Get the features and plugin versions of the server
+   *
+   * The versions are fetched once per client and cached; a failed fetch is
+   * not cached.
+   *
+   * @param options - Request options; `refresh` fetches the versions again
+   * @returns Server capabilities
+   *
+   * @example
+   * ```typescript
+   * const { features } = await client.getCapabilities();
+   * if (features["dependency-graph"].available) {
+   *   showGraph(await client.getDependencyGraph(uuid));
+   * }
+   * ```
+   */
+  async getCapabilities(
+    options: CapabilitiesOptions = {}
+  ): Promise<ServerCapabilities> {
+    if (!this.capabilities || options.refresh) {
+      const capabilities =
+        this.getServerVersions(options).then(toServerCapabilities);
+      this.capabilities = capabilities;
+      capabilities.catch(() => {
+        if (this.capabilities === capabilities) {
+          this.capabilities = undefined;
+        }
+      });
+    }
+    return this.capabilities;
+  }
+
+  /**
+   * Whether the server has a feature, optionally in a version range
+   *
+   * @param feature - Feature to check
+   * @param range - Version range of the plugin, e.g. ">=0.3.0 <1.0.0"
+   * @param options - Request options (signal, retry)
+   */
+  async supports(
+    feature: ServerFeature,
+    range?: string,
+    options: RequestOptions = {}
+  ): Promise<boolean> {
+    const { available, version } = (await this.getCapabilities(options))
+      .features[feature];
+    return (
+      available &&
+      (range === undefined ||
+        (version !== undefined && satisfiesVersion(version, range)))
+    );
+  }
+
+  /**
+   * Check that the server has a feature before relying on it
+   *
+   * @param feature - Feature to check
+   * @param range - Version range of the plugin, e.g. ">=0.3.0"
+   * @param options - Request options (signal, retry)
+   * @throws PluginNotAvailableError if the plugin is not installed or its
+   *   version is outside the range
+   */
+  async requireFeature(
+    feature: ServerFeature,
+    range?: string,
+    options: RequestOptions = {}
+  ): Promise<void> {
+    if (await this.supports(feature, range, options)) return;
+    const { plugin, version } = (await this.getCapabilities(options)).features[
+      feature
+    ];
+    throw new PluginNotAvailableError(
+      plugin,
+      version === undefined
+        ? undefined
+        : `Server plugin ${plugin} ${version} does not satisfy ${range}`
+    );
+  }
+
+  /**
+   * Run a call that needs a server plugin. The plugin's routes do not exist
+   * without it, so a 404 from a server that does not report the plugin is
+   * raised as PluginNotAvailableError; other errors are passed on.
+   */
+  private async withPlugin<T>(
+    feature: ServerFeature,
+    call: () => Promise<T>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      if (
+        error instanceof NotFoundError &&
+        !(error instanceof PluginNotAvailableError)
+      ) {
+        // If the versions cannot be fetched, keep the original error
+        const available = await this.supports(
+          feature,
+          undefined,
+          options
+        ).catch(() => true);
+        if (!available) {
+          throw new PluginNotAvailableError(
+            SERVER_FEATURE_PLUGINS[feature],
+            undefined,
+            error.body
+          );
+        }
+      }
+      throw error;
     }
   }
 
@@ -535,10 +2050,14 @@ export class DServerClient {
   /**
    * Get server configuration versions
    */
-  async getServerVersions(): Promise<ServerVersions> {
+  async getServerVersions(
+    options: RequestOptions = {}
+  ): Promise<ServerVersions> {
     const response = await this.request<{ versions: ServerVersions }>(
       "GET",
-      "/config/versions"
+      "/config/versions",
+      undefined,
+      options
     );
     return response.versions;
   }
@@ -546,9 +2065,14 @@ export class DServerClient {
   /**
    * Check server health (no auth required)
    */
-  async checkHealth(): Promise<{ status: string }> {
+  async checkHealth(options: RequestOptions = {}): Promise<{ status: string }> {
     const url = `${this.baseUrl}/config/health`;
-    const response = await this.fetchImpl(url);
+    const response = await this.send(
+      "api",
+      url,
+      { signal: options.signal },
+      this.resolveRetry(options.retry)
+    );
     if (!response.ok) {
       throw new DServerError("Health check failed", response.status);
     }
@@ -558,44 +2082,150 @@ export class DServerClient {
   /**
    * Get user summary info
    */
-  async getUserSummary(username: string): Promise<SummaryInfo> {
-    return this.request<SummaryInfo>("GET", `/users/${username}/summary`);
+  async getUserSummary(
+    username: string,
+    options: RequestOptions = {}
+  ): Promise<SummaryInfo> {
+    return this.request<SummaryInfo>(
+      "GET",
+      `/users/${username}/summary`,
+      undefined,
+      options
+    );
   }
 
   /**
    * Search datasets with pagination
+   *
+   * Searching does not modify server state, so it is retried like an
+   * idempotent call even though it is sent as a POST.
+   *
+   * @param query - Search query, or a builder carrying sort order and page
+   * @param pagination - Pagination; overrides the builder's
+   * @param options - Request options (signal, retry)
    */
   async searchDatasets(
-    query: SearchQuery,
-    pagination?: PaginationParams
+    query: SearchQuery | SearchQueryBuilder,
+    pagination?: PaginationParams,
+    options: RequestOptions = {}
   ): Promise<PaginatedResponse<DatasetEntry>> {
+    const request = toSearchRequest(query);
+    const { data, pagination: paginationInfo } =
+      await this.fetchPage<DatasetEntry>(
+        "POST",
+        "/uris",
+        request.query,
+        { ...request.pagination, ...pagination },
+        options
+      );
+    return { data, pagination: paginationInfo };
+  }
+
+  /**
+   * Fetch a page of results from a paginated endpoint. POSTed queries do not
+   * modify server state and are retried like idempotent calls. `paginated`
+   * tells whether the server sent a pagination header or the pagination
+   * info was derived.
+   */
+  private async fetchPage<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    pagination: PaginationParams | undefined,
+    options: RequestOptions
+  ): Promise<PaginatedResponse<T> & { paginated: boolean }> {
     const params = new URLSearchParams();
     if (pagination?.page) params.set("page", String(pagination.page));
     if (pagination?.page_size) params.set("page_size", String(pagination.page_size));
     if (pagination?.sort) params.set("sort", pagination.sort);
 
     const queryString = params.toString();
-    const path = `/uris${queryString ? `?${queryString}` : ""}`;
+    if (queryString) {
+      path += `${path.includes("?") ? "&" : "?"}${queryString}`;
+    }
 
-    const url = `${this.baseUrl}${path}`;
-    const response = await this.fetchImpl(url, {
-      method: "POST",
-      headers: this.getHeaders(),
-      body: JSON.stringify(query),
+    const response = await this.fetchApi(method, path, body, {
+      ...options,
+      idempotent: true,
     });
 
-    if (!response.ok) {
-      await this.handleErrorResponse(response);
-    }
-
-    const data: DatasetEntry[] = await response.json();
+    const data: T[] = await response.json();
+    const header = response.headers.get("x-pagination");
     const paginationInfo: PaginationInfo = parsePaginationHeader(
-      response.headers.get("x-pagination"),
+      header,
       pagination?.page_size,
       data.length
     );
 
-    return { data, pagination: paginationInfo };
+    return { data, pagination: paginationInfo, paginated: header !== null };
+  }
+
+  /**
+   * Iterate over the pages of a search, fetching each page only when the
+   * previous one has been consumed
+   *
+   * Iteration ends after the last page reported by the pagination header,
+   * or at the first empty page. Without a pagination header, a page with
+   * fewer results than `pageSize` is the last one. Abort `options.signal`
+   * to stop early.
+   *
+   * @param query - Search query, or a builder carrying sort order and page
+   * @param options - Page size hint, sort order, start page and request
+   *   options; they override the builder's
+   */
+  async *searchDatasetPages(
+    query: SearchQuery | SearchQueryBuilder,
+    options: SearchIterationOptions = {}
+  ): AsyncGenerator<PaginatedResponse<DatasetEntry>> {
+    const request = toSearchRequest(query);
+    const {
+      pageSize = request.pagination.page_size,
+      sort = request.pagination.sort,
+      startPage = request.pagination.page,
+      ...requestOptions
+    } = options;
+    for (let page = startPage ?? 1; ; page++) {
+      options.signal?.throwIfAborted();
+      const { data, pagination, paginated } =
+        await this.fetchPage<DatasetEntry>(
+          "POST",
+          "/uris",
+          request.query,
+          { page, page_size: pageSize, sort },
+          requestOptions
+        );
+      if (data.length === 0) return;
+      yield { data, pagination };
+      const last = paginated
+        ? page >= pagination.pages
+        : pageSize === undefined || data.length < pageSize;
+      if (last) return;
+    }
+  }
+
+  /**
+   * Iterate over all datasets matching a search, following the pages lazily
+   *
+   * @param query - Search query, or a builder carrying sort order and page
+   * @param options - Page size hint, sort order, start page and request options
+   *
+   * @example
+   * ```typescript
+   * for await (const dataset of client.searchAllDatasets({ tags: ["raw"] })) {
+   *   console.log(dataset.uri);
+   * }
+   *
+   * // Or, with a cap on the number of results held in memory:
+   * const all = await collectAll(client.searchAllDatasets(query), 50000);
+   * ```
+   */
+  async *searchAllDatasets(
+    query: SearchQuery | SearchQueryBuilder,
+    options: SearchIterationOptions = {}
+  ): AsyncGenerator<DatasetEntry> {
+    for await (const page of this.searchDatasetPages(query, options)) {
+      yield* page.data;
+    }
   }
 
   /**
@@ -633,27 +2263,100 @@ export class DServerClient {
   /**
    * Get manifest for a dataset
    */
-  async getManifest(uri: string): Promise<ManifestResponse> {
+  async getManifest(
+    uri: string,
+    options: RequestOptions = {}
+  ): Promise<ManifestResponse> {
     const encodedUri = encodeURIComponent(uri);
-    return this.request<ManifestResponse>("GET", `/manifests/${encodedUri}`);
+    return this.request<ManifestResponse>(
+      "GET",
+      `/manifests/${encodedUri}`,
+      undefined,
+      options
+    );
   }
 
   /**
    * Get readme for a dataset
    */
-  async getReadme(uri: string): Promise<ReadmeResponse> {
+  async getReadme(
+    uri: string,
+    options: RequestOptions = {}
+  ): Promise<ReadmeResponse> {
     const encodedUri = encodeURIComponent(uri);
-    return this.request<ReadmeResponse>("GET", `/readmes/${encodedUri}`);
+    return this.request<ReadmeResponse>(
+      "GET",
+      `/readmes/${encodedUri}`,
+      undefined,
+      options
+    );
   }
 
   /**
    * Set readme for a dataset
    */
-  async setReadme(uri: string, content: string): Promise<ReadmeResponse> {
+  async setReadme(
+    uri: string,
+    content: string | ReadmeDocument,
+    options: RequestOptions = {}
+  ): Promise<ReadmeResponse> {
     const encodedUri = encodeURIComponent(uri);
-    return this.request<ReadmeResponse>("PUT", `/readmes/${encodedUri}`, {
-      readme: content,
-    });
+    return this.request<ReadmeResponse>(
+      "PUT",
+      `/readmes/${encodedUri}`,
+      { readme: readmeText(content) },
+      options
+    );
+  }
+
+  /**
+   * Get the readme of a dataset as a parsed document
+   *
+   * @param uri - Dataset URI
+   * @param options - Request options (signal, retry)
+   * @returns Parsed README
+   */
+  async getReadmeDocument(
+    uri: string,
+    options: RequestOptions = {}
+  ): Promise<ReadmeDocument> {
+    const { readme } = await this.getReadme(uri, options);
+    return parseReadme(readme);
+  }
+
+  /**
+   * Edit individual README keys and save the result
+   *
+   * Comments, key order and formatting of the parts that are not changed
+   * are kept. With `options.schema`, the edited README must match the schema;
+   * otherwise a ReadmeValidationError is thrown and nothing is saved.
+   *
+   * @param uri - Dataset URI
+   * @param update - Changes the README in place
+   * @param options - Schema and request options
+   * @returns The saved README
+   *
+   * @example
+   * ```typescript
+   * await client.updateReadme(uri, (readme) => {
+   *   readme.set("project", "battery-aging");
+   *   readme.delete("draft");
+   * });
+   * ```
+   */
+  async updateReadme(
+    uri: string,
+    update: (readme: ReadmeDocument) => void | Promise<void>,
+    options: ReadmeUpdateOptions = {}
+  ): Promise<ReadmeDocument> {
+    const { schema, ...requestOptions } = options;
+    const readme = await this.getReadmeDocument(uri, requestOptions);
+    await update(readme);
+    if (schema) {
+      requireValidReadme(readme, schema);
+    }
+    await this.setReadme(uri, readme, requestOptions);
+    return readme;
   }
 
   // =========================================================================
@@ -663,17 +2366,31 @@ export class DServerClient {
   /**
    * Get tags for a dataset
    */
-  async getTags(uri: string): Promise<TagsResponse> {
+  async getTags(uri: string, options: RequestOptions = {}): Promise<TagsResponse> {
     const encodedUri = encodeURIComponent(uri);
-    return this.request<TagsResponse>("GET", `/tags/${encodedUri}`);
+    return this.request<TagsResponse>(
+      "GET",
+      `/tags/${encodedUri}`,
+      undefined,
+      options
+    );
   }
 
   /**
    * Set all tags for a dataset (replaces existing)
    */
-  async setTags(uri: string, tags: string[]): Promise<TagsResponse> {
+  async setTags(
+    uri: string,
+    tags: string[],
+    options: RequestOptions = {}
+  ): Promise<TagsResponse> {
     const encodedUri = encodeURIComponent(uri);
-    return this.request<TagsResponse>("PUT", `/tags/${encodedUri}`, { tags });
+    return this.request<TagsResponse>(
+      "PUT",
+      `/tags/${encodedUri}`,
+      { tags },
+      options
+    );
   }
 
   /**
@@ -708,11 +2425,16 @@ export class DServerClient {
   /**
    * Get annotations for a dataset
    */
-  async getAnnotations(uri: string): Promise<AnnotationsResponse> {
+  async getAnnotations(
+    uri: string,
+    options: RequestOptions = {}
+  ): Promise<AnnotationsResponse> {
     const encodedUri = encodeURIComponent(uri);
     return this.request<AnnotationsResponse>(
       "GET",
-      `/annotations/${encodedUri}`
+      `/annotations/${encodedUri}`,
+      undefined,
+      options
     );
   }
 
@@ -721,13 +2443,15 @@ export class DServerClient {
    */
   async setAnnotations(
     uri: string,
-    annotations: Record<string, unknown>
+    annotations: Record<string, unknown>,
+    options: RequestOptions = {}
   ): Promise<AnnotationsResponse> {
     const encodedUri = encodeURIComponent(uri);
     return this.request<AnnotationsResponse>(
       "PUT",
       `/annotations/${encodedUri}`,
-      { annotations }
+      { annotations },
+      options
     );
   }
 
@@ -770,23 +2494,28 @@ export class DServerClient {
   /**
    * Get current user info (includes is_admin flag)
    */
-  async getCurrentUser(): Promise<UserInfo> {
-    return this.request<UserInfo>("GET", "/me");
+  async getCurrentUser(options: RequestOptions = {}): Promise<UserInfo> {
+    return this.request<UserInfo>("GET", "/me", undefined, options);
   }
 
   /**
    * List all users (admin only)
    */
-  async listUsers(): Promise<UserInfo[]> {
-    return this.request<UserInfo[]>("GET", "/users");
+  async listUsers(options: RequestOptions = {}): Promise<UserInfo[]> {
+    return this.request<UserInfo[]>("GET", "/users", undefined, options);
   }
 
   /**
    * Get a specific user
    */
-  async getUser(username: string): Promise<UserInfo> {
+  async getUser(username: string, options: RequestOptions = {}): Promise<UserInfo> {
     const encodedUsername = encodeURIComponent(username);
-    return this.request<UserInfo>("GET", `/users/${encodedUsername}`);
+    return this.request<UserInfo>(
+      "GET",
+      `/users/${encodedUsername}`,
+      undefined,
+      options
+    );
   }
 
   /**
@@ -833,16 +2562,24 @@ export class DServerClient {
   /**
    * List all base URIs (admin only)
    */
-  async listBaseURIs(): Promise<BaseURIInfo[]> {
-    return this.request<BaseURIInfo[]>("GET", "/base-uris");
+  async listBaseURIs(options: RequestOptions = {}): Promise<BaseURIInfo[]> {
+    return this.request<BaseURIInfo[]>("GET", "/base-uris", undefined, options);
   }
 
   /**
    * Get a specific base URI
    */
-  async getBaseURI(baseUri: string): Promise<BaseURIInfo> {
+  async getBaseURI(
+    baseUri: string,
+    options: RequestOptions = {}
+  ): Promise<BaseURIInfo> {
     const encodedUri = encodeURIComponent(baseUri);
-    return this.request<BaseURIInfo>("GET", `/base-uris/${encodedUri}`);
+    return this.request<BaseURIInfo>(
+      "GET",
+      `/base-uris/${encodedUri}`,
+      undefined,
+      options
+    );
   }
 
   /**
@@ -897,6 +2634,121 @@ export class DServerClient {
     return this.request<UserInfo>("DELETE", `/users/${encodedUsername}/register/${encodedUri}`);
   }
 
+  // =========================================================================
+  // Dataset Retrieval API
+  // =========================================================================
+
+  /**
+   * Get the registered entry of a dataset by its URI
+   *
+   * @param uri - Dataset URI (e.g., "s3://bucket/uuid")
+   * @param options - Request options (signal, retry)
+   * @returns Dataset entry
+   * @throws NotFoundError if no dataset is registered under the URI, or the
+   *   user may not search its base URI
+   */
+  async getDataset(
+    uri: string,
+    options: RequestOptions = {}
+  ): Promise<DatasetEntry> {
+    let entry: DatasetEntry | undefined;
+    try {
+      entry = await this.request<DatasetEntry | undefined>(
+        "GET",
+        `/uris/${encodeUri(uri)}`,
+        undefined,
+        options
+      );
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new NotFoundError(`Dataset ${uri} not found`, error.body);
+      }
+      throw error;
+    }
+    if (!entry) {
+      throw new NotFoundError(`Dataset ${uri} not found`);
+    }
+    return entry;
+  }
+
+  /**
+   * List the datasets registered in a base URI
+   *
+   * The datasets are searched with `base_uris` set to the base URI. The
+   * search returns nothing for a base URI the user may not search, so an
+   * empty page is checked against the user's search permissions.
+   *
+   * @param baseUri - Base URI (e.g., "s3://bucket")
+   * @param pagination - Pagination parameters
+   * @param options - Request options (signal, retry)
+   * @returns Page of dataset entries; empty if the base URI has no datasets
+   * @throws NotFoundError if the base URI is not registered, or the user may
+   *   not search it
+   */
+  async listDatasets(
+    baseUri: string,
+    pagination?: PaginationParams,
+    options: RequestOptions = {}
+  ): Promise<PaginatedResponse<DatasetEntry>> {
+    const page = await this.searchDatasets(
+      { base_uris: [baseUri] },
+      pagination,
+      options
+    );
+    if (page.data.length === 0) {
+      const user = await this.getCurrentUser(options);
+      if (!user.search_permissions_on_base_uris.includes(baseUri)) {
+        throw new NotFoundError(`Base URI ${baseUri} not found`);
+      }
+    }
+    return page;
+  }
+
+  /**
+   * Get a summary of a dataset: its entry with item count, size, tags and
+   * annotations
+   *
+   * The item count and size are taken from the manifest if the server does
+   * not report them.
+   *
+   * @param uri - Dataset URI
+   * @param options - Request options (signal, retry)
+   * @returns Dataset summary
+   * @throws NotFoundError if no dataset is registered under the URI
+   */
+  async getDatasetSummary(
+    uri: string,
+    options: RequestOptions = {}
+  ): Promise<DatasetSummary> {
+    const entry = await this.getDataset(uri, options);
+    const totals = async () => {
+      if (
+        entry.number_of_items !== undefined &&
+        entry.size_in_bytes !== undefined
+      ) {
+        return {
+          number_of_items: entry.number_of_items,
+          size_in_bytes: entry.size_in_bytes,
+        };
+      }
+      const { items } = await this.getManifest(uri, options);
+      return {
+        number_of_items: Object.keys(items).length,
+        size_in_bytes: Object.values(items).reduce(
+          (sum, item) => sum + item.size_in_bytes,
+          0
+        ),
+      };
+    };
+    const [{ annotations }, tags, counts] = await Promise.all([
+      this.getAnnotations(uri, options),
+      entry.tags ??
+        this.getTags(uri, options).then((response) => response.tags),
+      totals(),
+    ]);
+    return { ...entry, ...counts, tags, annotations };
+  }
+
   // =========================================================================
   // UUID Lookup API
   // =========================================================================
@@ -906,13 +2758,101 @@ export class DServerClient {
    * Returns all instances of a dataset with that UUID across base URIs the user has access to
    *
    * @param uuid - Dataset UUID
+   * @param options - Request options (signal, retry)
    * @returns Array of datasets with that UUID
    */
-  async getDatasetsByUuid(uuid: string): Promise<DatasetEntry[]> {
+  async getDatasetsByUuid(
+    uuid: string,
+    options: RequestOptions = {}
+  ): Promise<DatasetEntry[]> {
     return this.request<DatasetEntry[]>(
       "GET",
-      `/uuids/${encodeURIComponent(uuid)}`
+      `/uuids/${encodeURIComponent(uuid)}`,
+      undefined,
+      options
+    );
+  }
+
+  // =========================================================================
+  // Direct Mongo Plugin API
+  // =========================================================================
+
+  /**
+   * Query datasets with a raw MongoDB filter and optional projection
+   *
+   * Unlike `searchDatasets`, the filter can address README content and
+   * annotations. Only datasets in base URIs the user may search are returned.
+   * Requires dserver-direct-mongo-plugin to be installed.
+   *
+   * @param request - Filter and projection
+   * @param pagination - Pagination parameters
+   * @param options - Request options (signal, retry)
+   * @returns Page of results; the type parameter describes projected results
+   * @throws PluginNotAvailableError if the plugin is not installed
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.mongoQuery<{ uri: string; readme: { project: string } }>(
+   *   {
+   *     query: { "readme.project": "battery-aging", tags: "raw" },
+   *     projection: { uri: 1, "readme.project": 1 },
+   *   },
+   *   { page_size: 100 }
+   * );
+   * ```
+   */
+  async mongoQuery<T = DatasetEntry>(
+    request: MongoQueryRequest,
+    pagination?: PaginationParams,
+    options: RequestOptions = {}
+  ): Promise<PaginatedResponse<T>> {
+    const { data, pagination: paginationInfo } = await this.withPlugin(
+      "direct-mongo",
+      () =>
+        this.fetchPage<T>("POST", "/mongo/query", request, pagination, options),
+      options
+    );
+    return { data, pagination: paginationInfo };
+  }
+
+  /**
+   * Run a MongoDB aggregation pipeline over the datasets
+   *
+   * The pipeline runs on the datasets the user may search. Requires
+   * dserver-direct-mongo-plugin to be installed.
+   *
+   * @param pipeline - Aggregation stages
+   * @param pagination - Pagination parameters
+   * @param options - Request options (signal, retry)
+   * @returns Page of results of the last stage
+   * @throws PluginNotAvailableError if the plugin is not installed
+   *
+   * @example
+   * ```typescript
+   * const { data } = await client.mongoAggregate<{ _id: string; count: number }>([
+   *   { $match: { "annotations.instrument": { $exists: true } } },
+   *   { $group: { _id: "$annotations.instrument", count: { $sum: 1 } } },
+   * ]);
+   * ```
+   */
+  async mongoAggregate<T = Record<string, unknown>>(
+    pipeline: MongoPipelineStage[],
+    pagination?: PaginationParams,
+    options: RequestOptions = {}
+  ): Promise<PaginatedResponse<T>> {
+    const { data, pagination: paginationInfo } = await this.withPlugin(
+      "direct-mongo",
+      () =>
+        this.fetchPage<T>(
+          "POST",
+          "/mongo/aggregate",
+          { aggregation: pipeline },
+          pagination,
+          options
+        ),
+      options
     );
+    return { data, pagination: paginationInfo };
   }
 
   // =========================================================================
@@ -926,19 +2866,37 @@ export class DServerClient {
    *
    * @param uuid - Dataset UUID
    * @param dependencyKeys - Optional array of custom dependency keys (e.g., ["readme.derived_from.uuid"])
+   * @param options - Request options (signal, retry)
    * @returns Array of datasets in the dependency graph with derived_from relationships
+   * @throws PluginNotAvailableError if the plugin is not installed
    */
-  async getDependencyGraph(uuid: string, dependencyKeys?: string[]): Promise<GraphDatasetEntry[]> {
+  async getDependencyGraph(
+    uuid: string,
+    dependencyKeys?: string[],
+    options: RequestOptions = {}
+  ): Promise<GraphDatasetEntry[]> {
     const encodedUuid = encodeURIComponent(uuid);
-    if (dependencyKeys && dependencyKeys.length > 0) {
-      // Use POST endpoint with custom dependency keys
-      return this.request<GraphDatasetEntry[]>(
-        "POST",
-        `/graph/uuids/${encodedUuid}`,
-        { dependency_keys: dependencyKeys }
-      );
-    }
-    // Use default GET endpoint
-    return this.request<GraphDatasetEntry[]>("GET", `/graph/uuids/${encodedUuid}`);
+    return this.withPlugin(
+      "dependency-graph",
+      () => {
+        if (dependencyKeys && dependencyKeys.length > 0) {
+          // Use POST endpoint with custom dependency keys (a read, safe to retry)
+          return this.request<GraphDatasetEntry[]>(
+            "POST",
+            `/graph/uuids/${encodedUuid}`,
+            { dependency_keys: dependencyKeys },
+            { ...options, idempotent: true }
+          );
+        }
+        // Use default GET endpoint
+        return this.request<GraphDatasetEntry[]>(
+          "GET",
+          `/graph/uuids/${encodedUuid}`,
+          undefined,
+          options
+        );
+      },
+      options
+    );
   }
 }
@@ -0,0 +1,151 @@
+import { createHash } from "node:crypto";
+import { Readable } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+import {
+  createBodyReader,
+  getKnownSize,
+  hashContent,
+  readContentChunks,
+} from "./content";
+import { FileToUpload, StaticContent, StreamContent } from "./types";
+
+const encoder = new TextEncoder();
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  return Readable.toWeb(
+    Readable.from(chunks.map((chunk) => encoder.encode(chunk)))
+  ) as ReadableStream<Uint8Array>;
+}
+
+async function text(
+  body: StaticContent | StreamContent | Promise<StaticContent | StreamContent>
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let result = "";
+  for await (const chunk of readContentChunks(await body)) {
+    result += decoder.decode(chunk, { stream: true });
+  }
+  return result + decoder.decode();
+}
+
+describe("readContentChunks", () => {
+  it.each<[string, () => StaticContent | StreamContent]>([
+    ["a string", () => "0123456789"],
+    ["an ArrayBuffer", () => encoder.encode("0123456789").buffer],
+    ["a Blob", () => new Blob(["01234", "56789"])],
+    ["a ReadableStream", () => streamOf("0123", "456789")],
+    ["a Node.js stream", () => Readable.from(["0123", "456789"])],
+  ])("reads %s", async (_, content) => {
+    const chunks: string[] = [];
+    for await (const chunk of readContentChunks(content(), 4)) {
+      chunks.push(new TextDecoder().decode(chunk));
+    }
+
+    expect(chunks.join("")).toBe("0123456789");
+  });
+
+  it("reads static content in chunks of the given size", async () => {
+    const sizes: number[] = [];
+    for await (const chunk of readContentChunks(new Blob(["0123456789"]), 4)) {
+      sizes.push(chunk.length);
+    }
+
+    expect(sizes).toEqual([4, 4, 2]);
+  });
+  it("cancels a stream that is not read to its end", async () => {
+    const cancel = vi.fn();
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(encoder.encode("chunk"));
+      },
+      cancel,
+    });
+
+    for await (const chunk of readContentChunks(stream)) {
+      expect(chunk.length).toBe(5);
+      break;
+    }
+
+    expect(cancel).toHaveBeenCalled();
+    expect(stream.locked).toBe(false);
+  });
+});
+
+describe("hashContent", () => {
+  it("opens factories and hashes their content", async () => {
+    const factory = vi.fn(async () => streamOf("hello ", "world"));
+    const onChunk = vi.fn();
+
+    expect(await hashContent(factory, onChunk)).toEqual({
+      size: 11,
+      hash: createHash("md5").update("hello world").digest("hex"),
+    });
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(onChunk.mock.calls).toEqual([[6], [5]]);
+  });
+});
+
+describe("getKnownSize", () => {
+  it("uses the declared size or the size of static content", () => {
+    expect(getKnownSize({ relpath: "a", content: "héllo" })).toBe(6);
+    expect(getKnownSize({ relpath: "a", content: () => "x", size: 3 })).toBe(3);
+    expect(getKnownSize({ relpath: "a", content: () => "x" })).toBeUndefined();
+  });
+});
+
+describe("createBodyReader", () => {
+  const file = (
+    content: FileToUpload["content"],
+    extra: Partial<FileToUpload> = {}
+  ) => ({ relpath: "a.bin", content, size_in_bytes: 10, ...extra });
+
+  it("opens a factory for every body", async () => {
+    const factory = vi.fn(() => streamOf("01234", "56789"));
+    const read = createBodyReader(file(factory));
+
+    expect(await text(read(0, 10))).toBe("0123456789");
+    expect(await text(read(3, 7))).toBe("3456");
+    expect(await text(read(3, 7))).toBe("3456");
+    expect(factory).toHaveBeenCalledTimes(3);
+  });
+
+  it("slices static content", async () => {
+    const blob = new Blob(["0123456789"]);
+    const read = createBodyReader(file(() => blob));
+
+    expect(await read(0, 10)).toBe(blob);
+    expect(await text(read(8, 10))).toBe("89");
+  });
+
+  it("opens parts with openRange", async () => {
+    const factory = vi.fn(() => streamOf("0123456789"));
+    const openRange = vi.fn((start: number, end: number) =>
+      streamOf("0123456789".slice(start, end))
+    );
+    const read = createBodyReader(file(factory, { openRange }));
+
+    expect(await text(read(4, 8))).toBe("4567");
+    expect(await text(read(8, 10))).toBe("89");
+    expect(openRange.mock.calls).toEqual([
+      [4, 8],
+      [8, 10],
+    ]);
+    expect(factory).not.toHaveBeenCalled();
+
+    // The whole item is read through the factory
+    expect(await text(read(0, 10))).toBe("0123456789");
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads a stream passed directly once, front to back", async () => {
+    const read = createBodyReader(file(streamOf("012", "3456", "789")));
+
+    expect(await text(read(0, 4))).toBe("0123");
+    // A retried part is sent again from memory
+    expect(await text(read(0, 4))).toBe("0123");
+    expect(await text(read(4, 8))).toBe("4567");
+    await expect(read(0, 4)).rejects.toThrow(
+      "Content of a.bin is a stream that was already read"
+    );
+  });
+});
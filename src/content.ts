@@ -0,0 +1,336 @@
+/**
+ * Reading and hashing of upload content
+ */
+
+import {
+  DServerError,
+  FileToUpload,
+  StaticContent,
+  StreamContent,
+  UploadContent,
+} from "./types";
+import { createHasher, supportsRequestStreams } from "./utils";
+
+/**
+ * Size of the chunks content is read and hashed in (8 MiB)
+ */
+export const CONTENT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Size of the chunks upload bodies are streamed in (256 KiB), small enough
+ * for smooth progress reporting
+ */
+const UPLOAD_STREAM_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Hash function of manifests written by dserver for uploaded datasets
+ */
+export const UPLOAD_HASH_FUNCTION = "md5sum_hexdigest";
+
+/**
+ * Body of a single upload request
+ */
+export type UploadBody = StaticContent | ReadableStream<Uint8Array>;
+
+/**
+ * Whether content is a Blob, ArrayBuffer or string
+ */
+export function isStaticContent(content: unknown): content is StaticContent {
+  return (
+    content instanceof Blob ||
+    content instanceof ArrayBuffer ||
+    typeof content === "string"
+  );
+}
+
+/**
+ * Whether content is a stream passed directly, which can only be read once
+ */
+export function isOneShotContent(content: UploadContent): boolean {
+  return typeof content !== "function" && !isStaticContent(content);
+}
+
+/**
+ * Size of static upload content in bytes
+ */
+export function getContentSize(content: StaticContent): number {
+  if (content instanceof Blob) {
+    return content.size;
+  }
+  if (content instanceof ArrayBuffer) {
+    return content.byteLength;
+  }
+  return new TextEncoder().encode(content).length;
+}
+
+/**
+ * Size of a file to upload if it is known without reading the content
+ */
+export function getKnownSize(file: FileToUpload): number | undefined {
+  if (file.size !== undefined) {
+    return file.size;
+  }
+  return isStaticContent(file.content)
+    ? getContentSize(file.content)
+    : undefined;
+}
+
+/**
+ * Resolve a content factory to the content it produces
+ */
+export async function openContent(
+  content: UploadContent
+): Promise<StaticContent | StreamContent> {
+  return typeof content === "function" ? content() : content;
+}
+
+/**
+ * Read upload content in chunks, so large Blobs and streams never have to
+ * be held in memory as a whole. Static content is read in chunks of at
+ * most `chunkSize` bytes; streams yield their chunks as they arrive.
+ */
+export async function* readContentChunks(
+  content: StaticContent | StreamContent,
+  chunkSize = CONTENT_CHUNK_SIZE
+): AsyncGenerator<Uint8Array> {
+  if (content instanceof Blob) {
+    for (let offset = 0; offset < content.size; offset += chunkSize) {
+      const slice = content.slice(offset, offset + chunkSize);
+      yield new Uint8Array(await slice.arrayBuffer());
+    }
+    return;
+  }
+  if (content instanceof ArrayBuffer || typeof content === "string") {
+    const bytes =
+      content instanceof ArrayBuffer
+        ? new Uint8Array(content)
+        : new TextEncoder().encode(content);
+    for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+      yield bytes.subarray(offset, offset + chunkSize);
+    }
+    return;
+  }
+  if ("getReader" in content) {
+    const reader = content.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        yield value;
+      }
+    } finally {
+      // Stop the source when reading ends early, e.g. after a range, so a
+      // download does not keep its connection busy
+      await reader.cancel().catch(() => undefined);
+      reader.releaseLock();
+    }
+  }
+  for await (const chunk of content) {
+    // Node.js streams with an encoding set yield strings
+    yield typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk;
+  }
+}
+
+/**
+ * Byte range [start, end) of static upload content as a request body
+ */
+export function sliceContent(
+  content: StaticContent,
+  start: number,
+  end: number
+): Blob | ArrayBuffer {
+  if (content instanceof Blob) {
+    return content.slice(start, end);
+  }
+  if (content instanceof ArrayBuffer) {
+    return content.slice(start, end);
+  }
+  return new TextEncoder().encode(content).slice(start, end).buffer;
+}
+
+/**
+ * Create a function returning the body for byte range [start, end) of a
+ * file's content, called once per upload attempt.
+ *
+ * Factories are opened anew for every body; a part of the content is opened
+ * with `openRange` if the file has it. Streams are sent as streaming
+ * request bodies in Node.js and are collected into a Blob in browsers.
+ *
+ * A stream passed directly is read front to back: ranges must be requested
+ * in order, and a range that may have to be sent again (a retried part) is
+ * kept in memory, except for a single whole-item body.
+ */
+export function createBodyReader(
+  file: FileToUpload & { size_in_bytes: number }
+): (start: number, end: number) => Promise<UploadBody> {
+  const content = file.content;
+  const openRange = file.openRange;
+  if (!isOneShotContent(content)) {
+    return async (start, end) => {
+      if (openRange && !(start === 0 && end === file.size_in_bytes)) {
+        const range = await openRange(start, end);
+        return isStaticContent(range)
+          ? range
+          : toBody(readContentChunks(range));
+      }
+      const source = await openContent(content);
+      if (isStaticContent(source)) {
+        const whole = start === 0 && end === getContentSize(source);
+        return whole ? source : sliceContent(source, start, end);
+      }
+      return toBody(rangeChunks(readContentChunks(source), start, end));
+    };
+  }
+
+  const chunks = readContentChunks(content as StreamContent);
+  let rest: Uint8Array | undefined;
+  let position = 0;
+  let last: { start: number; end: number; body: Blob } | undefined;
+
+  // Next `length` bytes of the stream; the excess of a chunk is kept
+  async function* take(length: number): AsyncGenerator<Uint8Array> {
+    while (length > 0) {
+      let chunk = rest;
+      rest = undefined;
+      if (!chunk) {
+        const next = await chunks.next();
+        if (next.done) return;
+        chunk = next.value;
+      }
+      if (chunk.length > length) {
+        rest = chunk.subarray(length);
+        chunk = chunk.subarray(0, length);
+      }
+      length -= chunk.length;
+      yield chunk;
+    }
+  }
+
+  return async (start, end) => {
+    if (last && last.start === start && last.end === end) {
+      return last.body;
+    }
+    if (start !== position) {
+      throw new DServerError(
+        `Content of ${file.relpath} is a stream that was already read; ` +
+          `pass a factory to allow retries`
+      );
+    }
+    position = end;
+    if (start === 0 && end === file.size_in_bytes) {
+      return toBody(take(end));
+    }
+    last = { start, end, body: await collectBlob(take(end - start)) };
+    return last.body;
+  };
+}
+
+/**
+ * Upload body as a byte stream that reports how many bytes have been read
+ * from it. Chunks are only read when the consumer pulls, so the count
+ * follows the bytes actually sent.
+ */
+export function contentStream(
+  content: UploadBody,
+  onProgress: (loaded: number) => void
+): ReadableStream<Uint8Array> {
+  const chunks = readContentChunks(content, UPLOAD_STREAM_CHUNK_SIZE);
+  let loaded = 0;
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const { done, value } = await chunks.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+        loaded += value.length;
+        onProgress(loaded);
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    },
+    { highWaterMark: 0 }
+  );
+}
+
+/**
+ * Compute size and MD5 hash of upload content incrementally.
+ *
+ * @param content - Content to hash; factories are opened first
+ * @param onChunk - Called with the number of bytes in each hashed chunk
+ * @param signal - AbortSignal for cancellation between chunks
+ */
+export async function hashContent(
+  content: UploadContent,
+  onChunk?: (bytes: number) => void,
+  signal?: AbortSignal
+): Promise<{ size: number; hash: string }> {
+  const hasher = createHasher(UPLOAD_HASH_FUNCTION);
+  if (!hasher) {
+    throw new DServerError(`Unsupported hash function ${UPLOAD_HASH_FUNCTION}`);
+  }
+  let size = 0;
+  for await (const chunk of readContentChunks(await openContent(content))) {
+    signal?.throwIfAborted();
+    hasher.update(chunk);
+    size += chunk.length;
+    onChunk?.(chunk.length);
+  }
+  return { size, hash: hasher.digest() };
+}
+
+/**
+ * Turn chunks into a request body: a stream in Node.js, otherwise a Blob,
+ * which browsers send with upload progress through XMLHttpRequest
+ */
+async function toBody(chunks: AsyncGenerator<Uint8Array>): Promise<UploadBody> {
+  if (!supportsRequestStreams()) {
+    return collectBlob(chunks);
+  }
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+async function collectBlob(chunks: AsyncGenerator<Uint8Array>): Promise<Blob> {
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) {
+    parts.push(chunk);
+  }
+  return new Blob(parts as BlobPart[]);
+}
+
+/**
+ * Skip to `start` and yield the bytes up to `end`. A range that ends with
+ * the content reads the source to its end, so checks that run when a
+ * stream closes (such as download verification) are not skipped.
+ */
+async function* rangeChunks(
+  chunks: AsyncGenerator<Uint8Array>,
+  start: number,
+  end: number
+): AsyncGenerator<Uint8Array> {
+  let position = 0;
+  for await (const chunk of chunks) {
+    const from = Math.max(start - position, 0);
+    const to = Math.min(end - position, chunk.length);
+    position += chunk.length;
+    if (to > from) {
+      yield chunk.subarray(from, to);
+    }
+    if (position > end) return;
+  }
+}
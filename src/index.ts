@@ -7,10 +7,24 @@
 // Main client class
 export { DServerClient } from "./client";
 
+// Dataset sessions with automatic signed-URL renewal
+export { DatasetSession } from "./session";
+
+// Staged dataset creation
+export { ProtoDataset } from "./proto-dataset";
+
+// Upload journal stores for resumable uploads
+export { MemoryJournalStore, IndexedDBJournalStore } from "./journal";
+
 // Types
 export type {
   // Configuration
   DServerClientConfig,
+  TokenProvider,
+  Middleware,
+  MiddlewareRequest,
+  RetryPolicy,
+  RequestOptions,
 
   // Signed URL API Response types
   DatasetSignedURLsResponse,
@@ -22,6 +36,10 @@ export type {
   UploadItem,
   UploadItemURL,
   UploadURLs,
+  UploadPartURL,
+  MultipartUploadInfo,
+  CompletedPart,
+  MultipartCompleteRequest,
 
   // Dataset types
   AdminMetadata,
@@ -30,17 +48,51 @@ export type {
 
   // Operation options
   DownloadOptions,
+  ByteRange,
   UploadOptions,
+  CopyDatasetOptions,
+  DatasetSource,
+  DerivedDatasetOptions,
+  ReadmeSchema,
+  ReadmeFieldSchema,
+  ReadmeValidationCode,
+  ReadmeValidationProblem,
+  ReadmeValidationResult,
+  ReadmeUpdateOptions,
   FileToUpload,
+  UploadContent,
+  StaticContent,
+  StreamContent,
   ProgressCallback,
+  UploadJournal,
+  UploadJournalStore,
+  UploadPhase,
+  UploadItemProgress,
+  UploadProgressEvent,
+  UploadItemFailure,
+  FileValidationCode,
+  FileValidationProblem,
+  FileValidationResult,
+  DatasetSessionOptions,
+  ProtoDatasetOptions,
+  PendingManifest,
 
   // REST API types
   DatasetEntry,
+  DatasetSummary,
   SearchQuery,
   PaginationParams,
   PaginationInfo,
   PaginatedResponse,
+  SearchIterationOptions,
+  SearchSortKey,
+  SortDirection,
+  SearchSort,
   ServerVersions,
+  ServerFeature,
+  ServerFeatureInfo,
+  ServerCapabilities,
+  CapabilitiesOptions,
   TagsResponse,
   AnnotationsResponse,
   ReadmeResponse,
@@ -56,6 +108,12 @@ export type {
 
   // Dependency graph plugin types
   GraphDatasetEntry,
+
+  // Direct Mongo plugin types
+  MongoFilter,
+  MongoProjection,
+  MongoPipelineStage,
+  MongoQueryRequest,
 } from "./types";
 
 // Error classes (these are values, not just types)
@@ -64,8 +122,30 @@ export {
   AuthenticationError,
   AuthorizationError,
   NotFoundError,
+  SignedURLExpiredError,
+  IntegrityError,
+  UploadIncompleteError,
+  FileValidationError,
+  ReadmeValidationError,
+  PluginNotAvailableError,
 } from "./types";
 
+// Pre-flight validation of files to upload
+export { validateFiles } from "./validation";
+
+// Structured README access
+export { ReadmeDocument, parseReadme, validateReadme } from "./readme";
+export type { ReadmePath } from "./readme";
+
+// Search query builder
+export { SearchQueryBuilder, SEARCH_SORT_KEYS } from "./query";
+
+// Server capabilities
+export { SERVER_FEATURE_PLUGINS, satisfiesVersion } from "./capabilities";
+
+// Provenance of derived datasets
+export { addProvenance, DEFAULT_DEPENDENCY_KEYS } from "./provenance";
+
 // Utilities
 export {
   generateIdentifier,
@@ -78,10 +158,15 @@ export {
   timeUntilExpiry,
   formatBytes,
   delay,
+  parseRetryAfter,
   withRetry,
   chunk,
   parallelLimit,
+  collectAll,
+  globToRegExp,
+  createHasher,
 } from "./utils";
+export type { IncrementalHasher } from "./utils";
 
 // Vue composables (tree-shakeable - only imported when used)
 export {
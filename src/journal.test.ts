@@ -0,0 +1,75 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { IndexedDBJournalStore, MemoryJournalStore } from "./journal";
+import { UploadJournal } from "./types";
+
+function journal(key: string): UploadJournal {
+  return {
+    version: 1,
+    key,
+    base_uri: "s3://bucket",
+    request: {
+      uuid: key,
+      name: "dataset",
+      creator_username: "jane",
+      frozen_at: 1700000000,
+    },
+    readme: "---\n",
+    readme_uploaded: false,
+    completed: [],
+  };
+}
+
+describe("MemoryJournalStore", () => {
+  it("stores snapshots of journals", async () => {
+    const store = new MemoryJournalStore();
+    const saved = journal("a");
+    await store.save("a", saved);
+    saved.completed.push("later.txt");
+
+    expect(await store.load("a")).toEqual(journal("a"));
+    expect(await store.keys()).toEqual(["a"]);
+    await store.delete("a");
+    expect(await store.load("a")).toBeUndefined();
+  });
+});
+
+describe("IndexedDBJournalStore", () => {
+  it("saves, loads and deletes journals", async () => {
+    const store = new IndexedDBJournalStore("round-trip");
+    await store.save("a", journal("a"));
+    await store.save("b", journal("b"));
+
+    expect(await store.load("a")).toEqual(journal("a"));
+    expect(await store.keys()).toEqual(["a", "b"]);
+    await store.delete("a");
+    expect(await store.load("a")).toBeUndefined();
+    expect(await new IndexedDBJournalStore("round-trip").keys()).toEqual(["b"]);
+  });
+
+  it("adds a store to an existing database", async () => {
+    const first = new IndexedDBJournalStore("shared", "first");
+    await first.save("a", journal("a"));
+
+    const second = new IndexedDBJournalStore("shared", "second");
+    await second.save("b", journal("b"));
+
+    expect(await second.keys()).toEqual(["b"]);
+    // The first connection gave way to the upgrade and reconnects
+    expect(await first.keys()).toEqual(["a"]);
+  });
+
+  it("adds several stores at the same time", async () => {
+    const stores = ["c", "d", "e"].map(
+      (name) => new IndexedDBJournalStore("concurrent", name)
+    );
+
+    await Promise.all(
+      stores.map((store, i) => store.save(`key${i}`, journal(`key${i}`)))
+    );
+
+    for (const [i, store] of stores.entries()) {
+      expect(await store.keys()).toEqual([`key${i}`]);
+    }
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Persistence adapters for upload journals
+ *
+ * A file system store for Node.js is available from "dserver-client/node".
+ */
+
+import { DServerError, UploadJournal, UploadJournalStore } from "./types";
+
+/**
+ * Journal store that keeps journals in memory.
+ *
+ * Journals survive failed uploads within the same page or process, but not
+ * a reload or restart.
+ */
+export class MemoryJournalStore implements UploadJournalStore {
+  private journals = new Map<string, string>();
+
+  async load(key: string): Promise<UploadJournal | undefined> {
+    const json = this.journals.get(key);
+    return json === undefined ? undefined : JSON.parse(json);
+  }
+
+  async save(key: string, journal: UploadJournal): Promise<void> {
+    // Store a snapshot, so later changes to the journal are not picked up
+    this.journals.set(key, JSON.stringify(journal));
+  }
+
+  async delete(key: string): Promise<void> {
+    this.journals.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.journals.keys()];
+  }
+}
+
+/**
+ * Journal store backed by IndexedDB, for browsers.
+ *
+ * Several stores can share a database; a store missing from an existing
+ * database is added by upgrading the database to the next version.
+ *
+ * @example
+ * ```typescript
+ * const journal = new IndexedDBJournalStore();
+ * for (const key of await journal.keys()) {
+ *   // Ask the user to select the files again, then:
+ *   await client.resumeUpload(key, files, { journal });
+ * }
+ * ```
+ */
+export class IndexedDBJournalStore implements UploadJournalStore {
+  private db?: Promise<IDBDatabase>;
+  private connection?: IDBDatabase;
+
+  /**
+   * @param databaseName - Name of the IndexedDB database
+   * @param storeName - Name of the object store within the database
+   */
+  constructor(
+    private readonly databaseName = "dserver-client",
+    private readonly storeName = "upload-journals"
+  ) {}
+
+  async load(key: string): Promise<UploadJournal | undefined> {
+    const journal = await this.run("readonly", (store) => store.get(key));
+    return journal as UploadJournal | undefined;
+  }
+
+  async save(key: string, journal: UploadJournal): Promise<void> {
+    await this.run("readwrite", (store) => store.put(journal, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run("readwrite", (store) => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run("readonly", (store) => store.getAllKeys());
+    return (keys as IDBValidKey[]).map(String);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      if (typeof indexedDB === "undefined") {
+        throw new DServerError("IndexedDB is not available");
+      }
+      this.db = this.connect().catch((error) => {
+        this.db = undefined;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Open the database. If it exists without this store, e.g. because
+   * another store was created in it first, it is upgraded to the next
+   * version to add the store.
+   */
+  private async connect(version?: number): Promise<IDBDatabase> {
+    let closed = false;
+    const giveWay = (connection: IDBDatabase) => {
+      // Close when another connection upgrades the database
+      connection.onversionchange = () => {
+        connection.close();
+        closed = true;
+        if (this.connection === connection) {
+          this.connection = undefined;
+          this.db = undefined;
+        }
+      };
+    };
+    let db: IDBDatabase;
+    try {
+      db = await new Promise<IDBDatabase>((resolve, reject) => {
+        const request =
+          version === undefined
+            ? indexedDB.open(this.databaseName)
+            : indexedDB.open(this.databaseName, version);
+        request.onupgradeneeded = () => {
+          giveWay(request.result);
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => {
+          giveWay(request.result);
+          resolve(request.result);
+        };
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      // Another connection upgraded the database first; start over
+      if (
+        closed ||
+        (version !== undefined && (error as Error)?.name === "VersionError")
+      ) {
+        return this.connect();
+      }
+      throw error;
+    }
+    if (closed) {
+      return this.connect();
+    }
+    if (!db.objectStoreNames.contains(this.storeName)) {
+      db.close();
+      return this.connect(db.version + 1);
+    }
+    this.connection = db;
+    return db;
+  }
+
+  private async run(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<unknown> {
+    const db = await this.open();
+    if (db !== this.connection) {
+      // Closed for an upgrade by another connection meanwhile
+      return this.run(mode, operation);
+    }
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
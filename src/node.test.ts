@@ -0,0 +1,305 @@
+import { createHash } from "node:crypto";
+import {
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  symlink,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DServerClient } from "./client";
+import { readContentChunks } from "./content";
+import { collectDirectoryFiles, FileJournalStore, mirrorDataset } from "./node";
+import {
+  DatasetSignedURLsResponse,
+  FileToUpload,
+  Manifest,
+  UploadJournal,
+} from "./types";
+
+// Lets tests take away fs.openAsBlob, as on Node.js before 19.8
+const runtime = vi.hoisted(() => ({ openAsBlob: true }));
+vi.mock("node:fs", async (importOriginal) => {
+  const fs = await importOriginal<typeof import("node:fs")>();
+  return {
+    ...fs,
+    get openAsBlob() {
+      return runtime.openAsBlob ? fs.openAsBlob : undefined;
+    },
+  };
+});
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "dserver-client-"));
+});
+
+afterEach(async () => {
+  runtime.openAsBlob = true;
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function text(
+  content: Awaited<ReturnType<NonNullable<FileToUpload["openRange"]>>>
+): Promise<string> {
+  let result = "";
+  for await (const chunk of readContentChunks(content)) {
+    result += new TextDecoder().decode(chunk);
+  }
+  return result;
+}
+
+describe("collectDirectoryFiles", () => {
+  beforeEach(async () => {
+    await mkdir(join(dir, "data", "raw"), { recursive: true });
+    await mkdir(join(dir, "__pycache__"));
+    await writeFile(join(dir, "README.md"), "readme");
+    await writeFile(join(dir, "data", "a.csv"), "1,2,3");
+    await writeFile(join(dir, "data", "raw", "b.tmp"), "tmp");
+    await writeFile(join(dir, "__pycache__", "c.pyc"), "");
+    await symlink(join(dir, "data"), join(dir, "link"));
+  });
+
+  it("walks the directory in order with declared sizes", async () => {
+    const files = await collectDirectoryFiles(dir, {
+      exclude: ["__pycache__", "*.tmp"],
+    });
+
+    expect(files.map(({ relpath, size }) => [relpath, size])).toEqual([
+      ["README.md", 6],
+      ["data/a.csv", 5],
+    ]);
+  });
+
+  it("includes matching files and follows symbolic links", async () => {
+    const files = await collectDirectoryFiles(dir, {
+      include: ["*.csv"],
+      followSymlinks: true,
+    });
+
+    // The link target was visited already, so it is not walked again
+    expect(files.map(({ relpath }) => relpath)).toEqual(["data/a.csv"]);
+  });
+
+  it("opens file content only when it is read", async () => {
+    const [file] = await collectDirectoryFiles(dir, { include: ["a.csv"] });
+    await writeFile(join(dir, "data", "a.csv"), "4,5,6");
+
+    expect(typeof file.content).toBe("function");
+    expect(await text(await (file.content as () => Blob)())).toBe("4,5,6");
+  });
+
+  it("opens byte ranges without fs.openAsBlob", async () => {
+    runtime.openAsBlob = false;
+    const [file] = await collectDirectoryFiles(dir, { include: ["a.csv"] });
+
+    expect(await text(await file.openRange!(2, 4))).toBe("2,");
+    expect(await text(await file.openRange!(4, 5))).toBe("3");
+  });
+});
+
+describe("FileJournalStore", () => {
+  const journal: UploadJournal = {
+    version: 1,
+    key: "uploads/a b",
+    base_uri: "s3://bucket",
+    request: {
+      uuid: "1a1f9fad-8589-413e-9602-5bbd66bfe675",
+      name: "dataset",
+      creator_username: "jane",
+      frozen_at: 1700000000,
+    },
+    readme: "---\n",
+    readme_uploaded: true,
+    completed: ["a.txt"],
+  };
+
+  it("keeps each journal in a file", async () => {
+    const store = new FileJournalStore(join(dir, "journals"));
+    await store.save(journal.key, journal);
+
+    expect(await readdir(join(dir, "journals"))).toEqual([
+      "uploads%2Fa%20b.json",
+    ]);
+    expect(
+      await new FileJournalStore(join(dir, "journals")).load(journal.key)
+    ).toEqual(journal);
+    expect(await store.keys()).toEqual([journal.key]);
+
+    await store.delete(journal.key);
+    expect(await store.load(journal.key)).toBeUndefined();
+    expect(await store.keys()).toEqual([]);
+  });
+
+  it("treats a missing directory as empty", async () => {
+    const store = new FileJournalStore(join(dir, "missing"));
+
+    expect(await store.keys()).toEqual([]);
+    expect(await store.load("a")).toBeUndefined();
+    await expect(store.delete("a")).resolves.toBeUndefined();
+  });
+});
+
+describe("mirrorDataset", () => {
+  const md5 = (content: string) =>
+    createHash("md5").update(content).digest("hex");
+
+  /**
+   * Client for a server holding one dataset with the given items, keyed by
+   * relpath. Returns the URLs storage was asked for in `storageRequests`.
+   */
+  function datasetClient(
+    items: Record<string, string>,
+    dataset: { name?: string; tags?: string[] } = {}
+  ) {
+    const { name = "run-42", tags = [] } = dataset;
+    const manifest: Manifest = {
+      dtoolcore_version: "3.18.0",
+      hash_function: "md5sum_hexdigest",
+      items: Object.fromEntries(
+        Object.entries(items).map(([relpath, content], i) => [
+          `id${i}`,
+          {
+            relpath,
+            size_in_bytes: content.length,
+            hash: md5(content),
+            utc_timestamp: 1700000000,
+          },
+        ])
+      ),
+    };
+    const storage = new Map<string, string>([
+      [
+        "https://storage/dtool",
+        JSON.stringify({ uuid: "uuid", name, type: "dataset" }),
+      ],
+      ["https://storage/manifest.json", JSON.stringify(manifest)],
+      ["https://storage/README.yml", "---\ndescription: run 42\n"],
+      ["https://storage/overlays/mask.json", JSON.stringify({ id0: true })],
+      ["https://storage/annotations/project.json", JSON.stringify("apollo")],
+      ...Object.values(items).map((content, i): [string, string] => [
+        `https://storage/data/id${i}`,
+        content,
+      ]),
+    ]);
+    const urls: DatasetSignedURLsResponse = {
+      uri: "s3://bucket/uuid",
+      expiry_seconds: 3600,
+      expiry_timestamp: new Date(Date.now() + 3600000).toISOString(),
+      admin_metadata_url: "https://storage/dtool",
+      manifest_url: "https://storage/manifest.json",
+      readme_url: "https://storage/README.yml",
+      item_urls: Object.fromEntries(
+        Object.keys(manifest.items).map((id) => [
+          id,
+          `https://storage/data/${id}`,
+        ])
+      ),
+      overlay_urls: { mask: "https://storage/overlays/mask.json" },
+      annotation_urls: { project: "https://storage/annotations/project.json" },
+      tags,
+    };
+
+    const storageRequests: string[] = [];
+    const fetch = vi.fn<Parameters<typeof globalThis.fetch>, Promise<Response>>(
+      async (input) => {
+        const url = String(input);
+        if (url.startsWith("http://dserver/signed-urls/dataset/")) {
+          return Response.json(urls);
+        }
+        storageRequests.push(url);
+        const body = storage.get(url);
+        return body === undefined
+          ? new Response(null, { status: 404 })
+          : new Response(body);
+      }
+    );
+    const client = new DServerClient({ baseUrl: "http://dserver", fetch });
+    return { client, storageRequests };
+  }
+
+  const read = (...path: string[]) => readFile(join(dir, ...path), "utf-8");
+
+  it("writes a dtool disk dataset", async () => {
+    const { client } = datasetClient(
+      { "a.txt": "alpha", "sub/b.txt": "beta", "..c.txt": "gamma" },
+      { tags: ["raw"] }
+    );
+
+    const result = await mirrorDataset(client, "s3://bucket/uuid", dir);
+
+    expect(result).toEqual({
+      uri: "s3://bucket/uuid",
+      path: join(dir, "run-42"),
+      downloaded: expect.arrayContaining(["a.txt", "sub/b.txt", "..c.txt"]),
+      skipped: [],
+    });
+    expect(await read("run-42", "data", "a.txt")).toBe("alpha");
+    expect(await read("run-42", "data", "sub", "b.txt")).toBe("beta");
+    expect(await read("run-42", "data", "..c.txt")).toBe("gamma");
+    expect(await read("run-42", "README.yml")).toBe(
+      "---\ndescription: run 42\n"
+    );
+    expect(JSON.parse(await read("run-42", ".dtool", "dtool"))).toMatchObject({
+      name: "run-42",
+    });
+    expect(
+      JSON.parse(await read("run-42", ".dtool", "overlays", "mask.json"))
+    ).toEqual({ id0: true });
+    expect(
+      JSON.parse(await read("run-42", ".dtool", "annotations", "project.json"))
+    ).toBe("apollo");
+    expect(await readdir(join(dir, "run-42", ".dtool", "tags"))).toEqual([
+      "raw",
+    ]);
+  });
+
+  it("skips items that are already present and unchanged", async () => {
+    const { client, storageRequests } = datasetClient({
+      "a.txt": "alpha",
+      "b.txt": "beta",
+    });
+    await mirrorDataset(client, "s3://bucket/uuid", dir);
+    await writeFile(join(dir, "run-42", "data", "b.txt"), "BETA");
+    storageRequests.length = 0;
+
+    const result = await mirrorDataset(client, "s3://bucket/uuid", dir);
+
+    expect(result.skipped).toEqual(["a.txt"]);
+    expect(result.downloaded).toEqual(["b.txt"]);
+    expect(storageRequests).not.toContain("https://storage/data/id0");
+    expect(storageRequests).toContain("https://storage/data/id1");
+    expect(await read("run-42", "data", "b.txt")).toBe("beta");
+  });
+
+  it.each(["../../escaped.txt", "../escaped.txt", "a/../../escaped.txt"])(
+    "refuses the item path %s",
+    async (relpath) => {
+      const { client } = datasetClient({ [relpath]: "payload" });
+
+      await expect(
+        mirrorDataset(client, "s3://bucket/uuid", dir)
+      ).rejects.toThrow(`Refusing to write item outside dataset: ${relpath}`);
+      expect(await readdir(dir)).toEqual(["run-42"]);
+      expect(await readdir(join(dir, "run-42"))).toEqual([".dtool", "data"]);
+    }
+  );
+
+  it.each([
+    ["dataset", { name: "../run-42" }],
+    ["dataset", { name: ".." }],
+    ["tag", { tags: ["../../escaped"] }],
+  ])("refuses a %s name outside the target", async (what, dataset) => {
+    const { client } = datasetClient({ "a.txt": "alpha" }, dataset);
+
+    await expect(
+      mirrorDataset(client, "s3://bucket/uuid", dir)
+    ).rejects.toThrow(`Refusing to write ${what} outside`);
+    await expect(readFile(join(dir, "..", "escaped"))).rejects.toThrow();
+  });
+});
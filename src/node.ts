@@ -0,0 +1,498 @@
+/**
+ * Node.js-only helpers for dserver client
+ *
+ * These use the file system and are published as "dserver-client/node" so
+ * that the main entry point stays browser-compatible.
+ */
+
+import * as fs from "node:fs";
+import { createReadStream } from "node:fs";
+import {
+  lstat,
+  mkdir,
+  open,
+  readdir,
+  readFile,
+  realpath,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import {
+  basename,
+  dirname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "node:path";
+
+import type { DServerClient } from "./client";
+import {
+  DServerError,
+  FileToUpload,
+  Manifest,
+  RequestOptions,
+  UploadCompleteResponse,
+  UploadContent,
+  UploadJournal,
+  UploadJournalStore,
+  UploadOptions,
+} from "./types";
+import { createHasher, globToRegExp, parallelLimit } from "./utils";
+
+/**
+ * Progress of a dataset mirror
+ */
+export interface MirrorProgress {
+  /** Bytes of item data downloaded or found up to date */
+  loaded: number;
+  /** Total bytes of item data in the dataset */
+  total: number;
+  /** Items downloaded or found up to date */
+  itemsDone: number;
+  /** Number of items in the dataset */
+  itemsTotal: number;
+  /** Relative path of the item that caused this update */
+  item?: string;
+}
+
+/**
+ * Options for mirrorDataset
+ */
+export interface MirrorOptions extends RequestOptions {
+  /** Number of items downloaded in parallel (default: 4) */
+  concurrency?: number;
+  /** Verify downloaded items against the manifest (default: true) */
+  verify?: boolean;
+  /** Progress callback */
+  onProgress?: (progress: MirrorProgress) => void;
+}
+
+/**
+ * Result of mirrorDataset
+ */
+export interface MirrorResult {
+  /** Dataset URI that was mirrored */
+  uri: string;
+  /** Directory of the mirrored dataset */
+  path: string;
+  /** Relative paths of items that were downloaded */
+  downloaded: string[];
+  /** Relative paths of items that were already present and up to date */
+  skipped: string[];
+}
+
+/**
+ * Options for walking a local directory
+ */
+export interface DirectoryWalkOptions {
+  /**
+   * Only include files matching one of these globs (default: all files).
+   * Patterns containing a slash match the relpath, others the file name.
+   */
+  include?: string[];
+  /** Skip files and directories matching one of these globs */
+  exclude?: string[];
+  /** Follow symbolic links instead of skipping them (default: false) */
+  followSymlinks?: boolean;
+}
+
+/**
+ * Options for uploadDirectory
+ */
+export interface DirectoryUploadOptions
+  extends UploadOptions,
+    DirectoryWalkOptions {
+  /** Dataset name (default: the directory name) */
+  name?: string;
+}
+
+/**
+ * Structure parameters written by dtool's disk storage broker
+ */
+const DISK_STRUCTURE = {
+  data_directory: ["data"],
+  dataset_readme_relpath: ["README.yml"],
+  dtool_directory: [".dtool"],
+  admin_metadata_relpath: [".dtool", "dtool"],
+  structure_metadata_relpath: [".dtool", "structure.json"],
+  dtool_readme_relpath: [".dtool", "README.txt"],
+  manifest_relpath: [".dtool", "manifest.json"],
+  overlays_directory: [".dtool", "overlays"],
+  annotations_directory: [".dtool", "annotations"],
+  tags_directory: [".dtool", "tags"],
+  metadata_fragments_directory: [".dtool", "tmp_fragments"],
+};
+
+/**
+ * Mirror a dataset into a local dtool disk dataset.
+ *
+ * The dataset is written to `<baseDir>/<dataset name>` in the layout of
+ * dtool's disk storage broker, so it can be opened with dtool as
+ * `file://<baseDir>/<dataset name>`. Items that already exist with the
+ * manifest's size and hash are skipped, which makes an interrupted mirror
+ * cheap to restart. The admin metadata (`.dtool/dtool`) is written last, so
+ * an incomplete mirror is not mistaken for a dataset.
+ *
+ * @param client - Client used to fetch signed URLs
+ * @param uri - Dataset URI (e.g., "s3://bucket/uuid")
+ * @param baseDir - Local directory to create the dataset in
+ * @param options - Mirror options
+ * @returns Summary of the mirrored items
+ */
+export async function mirrorDataset(
+  client: DServerClient,
+  uri: string,
+  baseDir: string,
+  options: MirrorOptions = {}
+): Promise<MirrorResult> {
+  const { concurrency = 4, verify = true, onProgress, ...requestOptions } =
+    options;
+  const session = client.openDataset(uri, requestOptions);
+
+  const adminMetadata = await session.downloadAdminMetadata(requestOptions);
+  const manifest = await session.downloadManifest(requestOptions);
+  const readme = await session.downloadReadme(requestOptions);
+
+  const datasetDir = resolveEntryPath(baseDir, adminMetadata.name, "dataset");
+  const dtoolDir = join(datasetDir, ".dtool");
+  const dataDir = join(datasetDir, "data");
+  await mkdir(dtoolDir, { recursive: true });
+  await mkdir(dataDir, { recursive: true });
+
+  const entries = Object.entries(manifest.items);
+  const progress: MirrorProgress = {
+    loaded: 0,
+    total: entries.reduce((sum, [, item]) => sum + item.size_in_bytes, 0),
+    itemsDone: 0,
+    itemsTotal: entries.length,
+  };
+  const canVerify = createHasher(manifest.hash_function) !== undefined;
+  const downloaded: string[] = [];
+  const skipped: string[] = [];
+
+  await parallelLimit(entries, concurrency, async ([identifier, item]) => {
+    const path = resolveItemPath(dataDir, item.relpath);
+
+    if (await isUpToDate(path, item.size_in_bytes, item.hash, manifest)) {
+      skipped.push(item.relpath);
+      progress.loaded += item.size_in_bytes;
+    } else {
+      let itemLoaded = 0;
+      const stream = await session.streamItem(identifier, {
+        ...requestOptions,
+        verify: verify && canVerify ? manifest : undefined,
+        onProgress: (loaded) => {
+          progress.loaded += loaded - itemLoaded;
+          itemLoaded = loaded;
+          onProgress?.({ ...progress, item: item.relpath });
+        },
+      });
+      await writeStreamToFile(stream, path);
+      downloaded.push(item.relpath);
+    }
+
+    progress.itemsDone++;
+    onProgress?.({ ...progress, item: item.relpath });
+  });
+
+  await writeFile(join(datasetDir, "README.yml"), readme);
+
+  const urls = session.urls!;
+  for (const name of Object.keys(urls.overlay_urls)) {
+    const overlay = await session.downloadOverlay(name, requestOptions);
+    await writeJson(
+      resolveEntryPath(join(dtoolDir, "overlays"), `${name}.json`, "overlay"),
+      overlay
+    );
+  }
+  for (const name of Object.keys(urls.annotation_urls)) {
+    const annotation = await session.downloadAnnotation(name, requestOptions);
+    await writeJson(
+      resolveEntryPath(
+        join(dtoolDir, "annotations"),
+        `${name}.json`,
+        "annotation"
+      ),
+      annotation
+    );
+  }
+  await mkdir(join(dtoolDir, "tags"), { recursive: true });
+  for (const tag of urls.tags) {
+    await writeFile(resolveEntryPath(join(dtoolDir, "tags"), tag, "tag"), "");
+  }
+
+  await writeJson(join(dtoolDir, "structure.json"), {
+    ...DISK_STRUCTURE,
+    storage_broker_version: manifest.dtoolcore_version,
+  });
+  await writeJson(join(dtoolDir, "manifest.json"), manifest);
+  await writeJson(join(dtoolDir, "dtool"), adminMetadata);
+
+  return { uri, path: datasetDir, downloaded, skipped };
+}
+
+/**
+ * Collect the files below a local directory as files to upload.
+ *
+ * The directory is walked in sorted order. Excluded directories are not
+ * descended into. Symbolic links are skipped unless `followSymlinks` is set;
+ * when following them, each directory is visited at most once, so link
+ * cycles end the walk, and broken links are skipped. File content is not
+ * read until the file is hashed or uploaded.
+ *
+ * @param directory - Directory to walk
+ * @param options - Include/exclude globs and symlink handling
+ * @returns Files with relpaths relative to the directory
+ */
+export async function collectDirectoryFiles(
+  directory: string,
+  options: DirectoryWalkOptions = {}
+): Promise<FileToUpload[]> {
+  const include = options.include?.map(compilePattern);
+  const exclude = (options.exclude ?? []).map(compilePattern);
+  const files: FileToUpload[] = [];
+  const visited = new Set<string>();
+
+  const walk = async (dir: string, prefix: string): Promise<void> => {
+    const real = await realpath(dir);
+    if (visited.has(real)) return;
+    visited.add(real);
+
+    const names = (await readdir(dir)).sort();
+    for (const name of names) {
+      const path = join(dir, name);
+      const relpath = prefix ? `${prefix}/${name}` : name;
+      if (exclude.some((matches) => matches(relpath))) continue;
+
+      let stats = await lstat(path);
+      if (stats.isSymbolicLink()) {
+        if (!options.followSymlinks) continue;
+        const target = await stat(path).catch(() => undefined);
+        if (!target) continue;
+        stats = target;
+      }
+
+      if (stats.isDirectory()) {
+        await walk(path, relpath);
+      } else if (
+        stats.isFile() &&
+        (!include || include.some((matches) => matches(relpath)))
+      ) {
+        files.push({ relpath, ...fileContent(path), size: stats.size });
+      }
+    }
+  };
+
+  await walk(resolve(directory), "");
+  return files;
+}
+
+/**
+ * Upload a local directory as a new dataset.
+ *
+ * @param client - Client to upload with
+ * @param baseUri - Base URI (e.g., "s3://bucket")
+ * @param directory - Directory to upload
+ * @param options - Walk options, dataset name and upload options
+ * @returns Upload completion response
+ *
+ * @example
+ * ```typescript
+ * await uploadDirectory(client, "s3://bucket", "./results", {
+ *   exclude: ["__pycache__", "*.tmp"],
+ *   readme: "---\ndescription: Simulation results\n",
+ * });
+ * ```
+ */
+export async function uploadDirectory(
+  client: DServerClient,
+  baseUri: string,
+  directory: string,
+  options: DirectoryUploadOptions = {}
+): Promise<UploadCompleteResponse> {
+  const { name, include, exclude, followSymlinks, ...uploadOptions } = options;
+  const files = await collectDirectoryFiles(directory, {
+    include,
+    exclude,
+    followSymlinks,
+  });
+  return client.createDataset(
+    baseUri,
+    name ?? basename(resolve(directory)),
+    files,
+    uploadOptions
+  );
+}
+
+/**
+ * Compile a walk glob; patterns without a slash match the file name
+ */
+function compilePattern(pattern: string): (relpath: string) => boolean {
+  const regexp = globToRegExp(pattern);
+  if (pattern.includes("/")) {
+    return (relpath) => regexp.test(relpath);
+  }
+  return (relpath) => regexp.test(relpath.slice(relpath.lastIndexOf("/") + 1));
+}
+
+/**
+ * Content factory for a local file. Opens the file as a Blob backed by the
+ * file system, which can be sliced for multipart uploads, or as a read
+ * stream on Node.js before 19.8, which lacks `openAsBlob`; parts are then
+ * read from their own offset.
+ */
+function fileContent(
+  path: string
+): Pick<FileToUpload, "content" | "openRange"> {
+  if (typeof fs.openAsBlob === "function") {
+    return { content: () => fs.openAsBlob(path) };
+  }
+  return {
+    content: () => createReadStream(path),
+    openRange: (start, end) => createReadStream(path, { start, end: end - 1 }),
+  };
+}
+
+/**
+ * Journal store that keeps each upload journal as a JSON file in a
+ * directory, so uploads can be resumed after the process restarts.
+ *
+ * @example
+ * ```typescript
+ * const journal = new FileJournalStore(".dserver-uploads");
+ * await client.createDataset(baseUri, name, files, { journal });
+ * // After a crash:
+ * for (const key of await journal.keys()) {
+ *   await client.resumeUpload(key, files, { journal });
+ * }
+ * ```
+ */
+export class FileJournalStore implements UploadJournalStore {
+  /**
+   * @param directory - Directory the journal files are written to
+   */
+  constructor(private readonly directory: string) {}
+
+  async load(key: string): Promise<UploadJournal | undefined> {
+    const json = await readFile(this.path(key), "utf8").catch((error) => {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    });
+    return json === undefined ? undefined : JSON.parse(json);
+  }
+
+  async save(key: string, journal: UploadJournal): Promise<void> {
+    // Replace the file atomically, so a crash never leaves a torn journal
+    await mkdir(this.directory, { recursive: true });
+    const path = this.path(key);
+    await writeFile(`${path}.tmp`, JSON.stringify(journal));
+    await rename(`${path}.tmp`, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.path(key), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    const names = await readdir(this.directory).catch((error) => {
+      if (error.code === "ENOENT") return [] as string[];
+      throw error;
+    });
+    return names
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => decodeURIComponent(name.slice(0, -".json".length)));
+  }
+
+  private path(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
+
+/**
+ * Map an item relpath into the data directory, refusing paths that would
+ * escape it
+ */
+function resolveItemPath(dataDir: string, relpath: string): string {
+  const path = resolve(dataDir, ...relpath.split("/"));
+  const rel = relative(dataDir, path);
+  if (!rel || rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new DServerError(`Refusing to write item outside dataset: ${relpath}`);
+  }
+  return path;
+}
+
+/**
+ * Map a name from the server to an entry directly inside a directory,
+ * refusing names that are not a single path segment
+ */
+function resolveEntryPath(dir: string, name: string, what: string): string {
+  const path = resolve(dir, name);
+  if (
+    !name ||
+    name === "." ||
+    name === ".." ||
+    /[/\\\0]/.test(name) ||
+    relative(resolve(dir), path) !== name
+  ) {
+    throw new DServerError(
+      `Refusing to write ${what} outside ${dir}: ${JSON.stringify(name)}`
+    );
+  }
+  return path;
+}
+
+/**
+ * Check whether a local file already matches a manifest entry
+ */
+async function isUpToDate(
+  path: string,
+  size: number,
+  hash: string,
+  manifest: Manifest
+): Promise<boolean> {
+  const stats = await stat(path).catch(() => undefined);
+  if (!stats?.isFile() || stats.size !== size) {
+    return false;
+  }
+  const hasher = createHasher(manifest.hash_function);
+  if (!hasher) {
+    return false;
+  }
+  for await (const chunk of createReadStream(path)) {
+    hasher.update(chunk as Buffer);
+  }
+  return hasher.digest() === hash;
+}
+
+/**
+ * Write a byte stream to a file via a temporary file, so a partial download
+ * never looks like a complete item
+ */
+async function writeStreamToFile(
+  stream: ReadableStream<Uint8Array>,
+  path: string
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const partPath = `${path}.part`;
+  const handle = await open(partPath, "w");
+  try {
+    const reader = stream.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      await handle.write(value);
+    }
+  } finally {
+    await handle.close();
+  }
+  await rename(partPath, path);
+}
+
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(value, null, 2));
+}
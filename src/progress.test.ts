@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { UploadProgressTracker } from "./progress";
+import { UploadProgressEvent } from "./types";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * Copy of an event as it was when emitted; items are updated in place
+ */
+const snapshot = (event: UploadProgressEvent) => structuredClone(event);
+
+describe("UploadProgressTracker", () => {
+  it("reports phases and item states", () => {
+    const events: UploadProgressEvent[] = [];
+    const tracker = new UploadProgressTracker({
+      onUploadProgress: (event) => events.push(snapshot(event)),
+    });
+    tracker.addItem("a.txt", 4);
+    tracker.addItem("b.txt", 6, "done");
+
+    tracker.startPhase("uploading-items", 6, 10);
+    tracker.setState("a.txt", "uploading");
+    tracker.setState("a.txt", "done");
+
+    expect(
+      events.map(({ phase, loaded, total, item }) => [
+        phase,
+        loaded,
+        total,
+        item,
+      ])
+    ).toEqual([
+      ["uploading-items", 6, 10, undefined],
+      ["uploading-items", 6, 10, "a.txt"],
+      ["uploading-items", 6, 10, "a.txt"],
+    ]);
+    expect(events[1].items["a.txt"].state).toBe("uploading");
+    expect(events[2].items).toEqual({
+      "a.txt": { relpath: "a.txt", loaded: 0, total: 4, state: "done" },
+      "b.txt": { relpath: "b.txt", loaded: 6, total: 6, state: "done" },
+    });
+  });
+
+  it("grows items of unknown size as they are hashed", () => {
+    const onHashProgress = vi.fn();
+    const tracker = new UploadProgressTracker({ onHashProgress });
+    tracker.addItem("sized.txt", 5);
+    tracker.addItem("stream.bin", undefined);
+
+    tracker.startPhase("hashing", 0, 5);
+    tracker.hashed("sized.txt", 5);
+    tracker.hashed("stream.bin", 3);
+    tracker.hashed("stream.bin", 4);
+
+    expect(onHashProgress.mock.calls).toEqual([
+      [5, 5, "sized.txt"],
+      [8, 8, "stream.bin"],
+      [12, 12, "stream.bin"],
+    ]);
+    expect(tracker.items["stream.bin"].total).toBe(7);
+  });
+
+  it("counts bytes of a retried item once", () => {
+    const onProgress = vi.fn();
+    const tracker = new UploadProgressTracker({ onProgress });
+    tracker.addItem("a.txt", 10);
+    tracker.startPhase("uploading-items", 0, 10);
+
+    tracker.uploaded("a.txt", 6);
+    tracker.uploaded("a.txt", 0);
+    tracker.uploaded("a.txt", 10);
+
+    expect(onProgress.mock.calls).toEqual([
+      [6, 10, "a.txt"],
+      [0, 10, "a.txt"],
+      [10, 10, "a.txt"],
+    ]);
+  });
+
+  it("estimates throughput and the time left", () => {
+    vi.useFakeTimers();
+    const onUploadProgress = vi.fn();
+    const tracker = new UploadProgressTracker({ onUploadProgress });
+    tracker.addItem("a.bin", 1000);
+    tracker.startPhase("uploading-items", 0, 1000);
+
+    vi.advanceTimersByTime(2000);
+    tracker.uploaded("a.bin", 200);
+
+    expect(onUploadProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ loaded: 200, bytesPerSecond: 100, eta: 8 })
+    );
+  });
+});
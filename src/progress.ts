@@ -0,0 +1,128 @@
+/**
+ * Progress tracking for dataset uploads
+ */
+
+import {
+  UploadItemProgress,
+  UploadOptions,
+  UploadPhase,
+  UploadProgressEvent,
+} from "./types";
+
+/**
+ * Throughput is averaged over this many milliseconds
+ */
+const THROUGHPUT_WINDOW = 5000;
+
+/**
+ * Collects byte counts of a dataset upload and reports them through the
+ * progress callbacks of the upload options
+ */
+export class UploadProgressTracker {
+  readonly items: Record<string, UploadItemProgress> = {};
+  private phase: UploadPhase = "hashing";
+  private loaded = 0;
+  private total = 0;
+  private samples: Array<[time: number, loaded: number]> = [];
+  private unsized = new Set<string>();
+
+  constructor(
+    private readonly options: Pick<
+      UploadOptions,
+      "onProgress" | "onHashProgress" | "onUploadProgress"
+    >
+  ) {}
+
+  /**
+   * Register an item with its size and initial state. Items of unknown
+   * size grow as they are hashed.
+   */
+  addItem(
+    relpath: string,
+    total: number | undefined,
+    state: UploadItemProgress["state"] = "pending"
+  ): void {
+    if (total === undefined) {
+      this.unsized.add(relpath);
+    }
+    this.items[relpath] = {
+      relpath,
+      loaded: state === "done" ? total ?? 0 : 0,
+      total: total ?? 0,
+      state,
+    };
+  }
+
+  /**
+   * Enter a new phase; `loaded` and `total` are its initial byte counts
+   */
+  startPhase(phase: UploadPhase, loaded: number, total: number): void {
+    this.phase = phase;
+    this.loaded = loaded;
+    this.total = total;
+    this.samples = [[Date.now(), loaded]];
+    this.emit();
+  }
+
+  /**
+   * Change the state of an item
+   */
+  setState(relpath: string, state: UploadItemProgress["state"]): void {
+    this.items[relpath].state = state;
+    this.emit(relpath);
+  }
+
+  /**
+   * Record `bytes` more hashed bytes of an item
+   */
+  hashed(relpath: string, bytes: number): void {
+    if (this.unsized.has(relpath)) {
+      this.items[relpath].total += bytes;
+      this.total += bytes;
+    }
+    this.advance(bytes);
+    this.options.onHashProgress?.(this.loaded, this.total, relpath);
+    this.emit(relpath);
+  }
+
+  /**
+   * Record the number of bytes of an item uploaded so far. The count may go
+   * down when a failed request is retried.
+   */
+  uploaded(relpath: string, loaded: number): void {
+    const item = this.items[relpath];
+    this.advance(loaded - item.loaded);
+    item.loaded = loaded;
+    this.options.onProgress?.(this.loaded, this.total, relpath);
+    this.emit(relpath);
+  }
+
+  private advance(bytes: number): void {
+    this.loaded += bytes;
+    const now = Date.now();
+    this.samples.push([now, this.loaded]);
+    while (this.samples.length > 2 && now - this.samples[0][0] > THROUGHPUT_WINDOW) {
+      this.samples.shift();
+    }
+  }
+
+  private emit(item?: string): void {
+    if (!this.options.onUploadProgress) return;
+    const [firstTime, firstLoaded] = this.samples[0] ?? [Date.now(), 0];
+    const elapsed = (Date.now() - firstTime) / 1000;
+    const bytesPerSecond =
+      elapsed > 0 ? Math.max(0, (this.loaded - firstLoaded) / elapsed) : 0;
+    const event: UploadProgressEvent = {
+      phase: this.phase,
+      loaded: this.loaded,
+      total: this.total,
+      bytesPerSecond,
+      items: this.items,
+      ...(item !== undefined && { item }),
+    };
+    if (bytesPerSecond > 0) {
+      event.eta = Math.max(0, this.total - this.loaded) / bytesPerSecond;
+    }
+    this.options.onUploadProgress(event);
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Staged dataset creation mirroring dtool's proto-dataset workflow
+ */
+
+import type { DServerClient } from "./client";
+import { getKnownSize, hashContent, UPLOAD_HASH_FUNCTION } from "./content";
+import {
+  DServerError,
+  FileToUpload,
+  PendingManifest,
+  ProtoDatasetOptions,
+  UploadCompleteResponse,
+  UploadContent,
+  UploadOptions,
+} from "./types";
+import { generateIdentifier, generateUUID } from "./utils";
+import { readmeText, ReadmeDocument } from "./readme";
+import { requireValidFiles } from "./validation";
+
+/**
+ * A dataset that is being assembled and has not been uploaded yet.
+ *
+ * Items, README, tags and annotations can be added over time, also from
+ * different sources. Nothing is uploaded until `freeze()`, which uploads
+ * everything and registers the dataset under the UUID assigned on
+ * creation.
+ *
+ * @example
+ * ```typescript
+ * const proto = client.createProtoDataset("s3://bucket", "run-42");
+ * proto.setReadme("---\ndescription: Measurement run 42\n");
+ * proto.addItem("raw/0001.dat", blob1);
+ * // ... later, as the instrument produces more files
+ * proto.addItem("raw/0002.dat", blob2);
+ * proto.addTag("raw");
+ * const manifest = await proto.getManifest();
+ * await proto.freeze({ onUploadProgress: console.log });
+ * ```
+ */
+export class ProtoDataset {
+  readonly uuid: string;
+  private files = new Map<string, FileToUpload>();
+  private hashes = new WeakMap<FileToUpload, { size: number; hash: string }>();
+  private readme: string;
+  private tags = new Set<string>();
+  private annotations: Record<string, unknown> = {};
+  private creatorUsername?: string;
+  private state: "open" | "freezing" | "frozen" = "open";
+
+  constructor(
+    private readonly client: DServerClient,
+    readonly baseUri: string,
+    public name: string,
+    options: ProtoDatasetOptions = {}
+  ) {
+    this.uuid = options.uuid ?? generateUUID();
+    this.creatorUsername = options.creatorUsername;
+    this.readme = options.readme ? readmeText(options.readme) : "---\n";
+    for (const tag of options.tags ?? []) {
+      this.tags.add(tag);
+    }
+    Object.assign(this.annotations, options.annotations);
+  }
+
+  /**
+   * Whether the dataset has been frozen
+   */
+  get frozen(): boolean {
+    return this.state === "frozen";
+  }
+
+  /**
+   * Relative paths of the items added so far
+   */
+  get relpaths(): string[] {
+    return [...this.files.keys()];
+  }
+
+  /**
+   * Add an item, replacing any item with the same relpath
+   *
+   * @param relpath - Relative path within the dataset
+   * @param content - Item content, or a factory or stream producing it
+   * @param metadata - Optional MIME type, size and hash
+   */
+  addItem(
+    relpath: string,
+    content: UploadContent,
+    metadata: Omit<FileToUpload, "relpath" | "content"> = {}
+  ): this {
+    return this.addItems([{ relpath, content, ...metadata }]);
+  }
+
+  /**
+   * Add several items, replacing items with the same relpaths. Relpaths are
+   * normalized; if any file is invalid, a FileValidationError is thrown
+   * and none of them is added.
+   */
+  addItems(files: FileToUpload[]): this {
+    this.requireOpen();
+    for (const file of requireValidFiles(files)) {
+      this.files.set(file.relpath, file);
+    }
+    return this;
+  }
+
+  /**
+   * Remove an item
+   *
+   * @returns Whether an item was removed
+   */
+  removeItem(relpath: string): boolean {
+    this.requireOpen();
+    return this.files.delete(relpath);
+  }
+
+  /**
+   * Set the README content (YAML)
+   */
+  setReadme(readme: string | ReadmeDocument): this {
+    this.requireOpen();
+    this.readme = readmeText(readme);
+    return this;
+  }
+
+  /**
+   * Get the README content
+   */
+  getReadme(): string {
+    return this.readme;
+  }
+
+  /**
+   * Add a tag
+   */
+  addTag(tag: string): this {
+    this.requireOpen();
+    this.tags.add(tag);
+    return this;
+  }
+
+  /**
+   * Remove a tag
+   */
+  removeTag(tag: string): this {
+    this.requireOpen();
+    this.tags.delete(tag);
+    return this;
+  }
+
+  /**
+   * Get the tags
+   */
+  getTags(): string[] {
+    return [...this.tags];
+  }
+
+  /**
+   * Set a single annotation
+   */
+  setAnnotation(name: string, value: unknown): this {
+    this.requireOpen();
+    this.annotations[name] = value;
+    return this;
+  }
+
+  /**
+   * Delete an annotation
+   */
+  deleteAnnotation(name: string): this {
+    this.requireOpen();
+    delete this.annotations[name];
+    return this;
+  }
+
+  /**
+   * Get the annotations
+   */
+  getAnnotations(): Record<string, unknown> {
+    return { ...this.annotations };
+  }
+
+  /**
+   * Compute the manifest the dataset would be frozen with.
+   *
+   * Items are hashed on first inspection; the results are reused by later
+   * calls and by `freeze()` as long as the item is not replaced.
+   *
+   * @param options - Hashing progress and cancellation
+   */
+  async getManifest(
+    options: Pick<UploadOptions, "onHashProgress" | "signal"> = {}
+  ): Promise<PendingManifest> {
+    const files = [...this.files.values()];
+    const total = files.reduce(
+      (sum, file) => sum + (getKnownSize(file) ?? 0),
+      0
+    );
+    let hashed = 0;
+    const manifest: PendingManifest = {
+      hash_function: UPLOAD_HASH_FUNCTION,
+      items: {},
+    };
+    for (const file of files) {
+      const { size, hash } = await this.hashFile(
+        file,
+        (bytes) => {
+          hashed += bytes;
+          options.onHashProgress?.(hashed, total, file.relpath);
+        },
+        options.signal
+      );
+      manifest.items[await generateIdentifier(file.relpath)] = {
+        relpath: file.relpath,
+        size_in_bytes: size,
+        hash,
+      };
+    }
+    return manifest;
+  }
+
+  /**
+   * Upload the dataset and register it. Afterwards the proto-dataset can
+   * no longer be changed. If the upload fails, the proto-dataset stays
+   * open; an UploadIncompleteError carries the journal to finish the
+   * upload with `client.resumeUpload`.
+   *
+   * @param options - Upload options; README, tags, annotations and UUID are
+   *   taken from the proto-dataset
+   * @returns Upload completion response
+   */
+  async freeze(options: UploadOptions = {}): Promise<UploadCompleteResponse> {
+    this.requireOpen();
+    if (this.files.size === 0) {
+      throw new DServerError("Cannot freeze a dataset without items");
+    }
+    this.state = "freezing";
+    try {
+      // Items hashed by getManifest() are not hashed again
+      const files = [...this.files.values()].map((file) => {
+        const known = this.hashes.get(file);
+        return known ? { ...file, size: known.size, hash: known.hash } : file;
+      });
+      const result = await this.client.createDataset(
+        this.baseUri,
+        this.name,
+        files,
+        {
+          ...options,
+          uuid: this.uuid,
+          creatorUsername: this.creatorUsername,
+          readme: this.readme,
+          tags: [...this.tags],
+          annotations: { ...this.annotations },
+        }
+      );
+      this.state = "frozen";
+      return result;
+    } catch (error) {
+      this.state = "open";
+      throw error;
+    }
+  }
+
+  private async hashFile(
+    file: FileToUpload,
+    onChunk: (bytes: number) => void,
+    signal?: AbortSignal
+  ): Promise<{ size: number; hash: string }> {
+    let result = this.hashes.get(file);
+    if (!result) {
+      const size = getKnownSize(file);
+      result =
+        file.hash !== undefined && size !== undefined
+          ? { size, hash: file.hash }
+          : await hashContent(file.content, onChunk, signal);
+      this.hashes.set(file, result);
+    }
+    return result;
+  }
+
+  private requireOpen(): void {
+    if (this.state !== "open") {
+      throw new DServerError(
+        this.state === "frozen"
+          ? `Dataset ${this.uuid} is already frozen`
+          : `Dataset ${this.uuid} is being frozen`
+      );
+    }
+  }
+}
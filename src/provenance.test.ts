@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { addProvenance } from "./provenance";
+import { parseReadme } from "./readme";
+import { DServerError } from "./types";
+
+const raw = {
+  uuid: "1a1f9fad-8589-413e-9602-5bbd66bfe675",
+  name: "raw-data",
+  uri: "s3://bucket/1a1f9fad-8589-413e-9602-5bbd66bfe675",
+};
+const calibration = { uuid: "6b0c7e52-1d1a-4f4e-9e0b-2f1c3a7d9e10" };
+
+describe("addProvenance", () => {
+  it("lists the sources under derived_from by default", () => {
+    const { readme, annotations } = addProvenance("", {}, [raw, calibration]);
+
+    expect(parseReadme(readme).toJSON()).toEqual({
+      derived_from: [raw, calibration],
+    });
+    expect(annotations).toEqual({});
+  });
+
+  it("merges the provenance into an existing README", () => {
+    const existing =
+      "---\n" +
+      "# Filtered spectra of the March run\n" +
+      "description: Filtered spectra # keep this\n" +
+      "owners:\n" +
+      "  - name: Jane\n";
+
+    const { readme } = addProvenance(existing, {}, [raw]);
+
+    expect(readme).toContain("# Filtered spectra of the March run\n");
+    expect(readme).toContain("description: Filtered spectra # keep this\n");
+    expect(parseReadme(readme).toJSON()).toEqual({
+      description: "Filtered spectra",
+      owners: [{ name: "Jane" }],
+      derived_from: [raw],
+    });
+  });
+
+  it("does not change a document passed in", () => {
+    const document = parseReadme("description: Filtered spectra\n");
+
+    addProvenance(document, {}, [raw]);
+
+    expect(document.has("derived_from")).toBe(false);
+  });
+
+  it("records the sources under nested and annotation keys", () => {
+    const { readme, annotations } = addProvenance(
+      "",
+      { project: "spectra" },
+      [raw, calibration],
+      [
+        "readme.provenance.sources.id",
+        "annotations.source_dataset_uuid",
+        "annotations.sources.uuid",
+      ]
+    );
+
+    expect(parseReadme(readme).toJSON()).toEqual({
+      provenance: {
+        sources: [
+          { id: raw.uuid, name: raw.name, uri: raw.uri },
+          { id: calibration.uuid },
+        ],
+      },
+    });
+    expect(annotations).toEqual({
+      project: "spectra",
+      source_dataset_uuid: [raw.uuid, calibration.uuid],
+      sources: [raw, calibration],
+    });
+  });
+
+  it("records a single source UUID as a value", () => {
+    const { annotations } = addProvenance(
+      "",
+      {},
+      [raw],
+      ["annotations.source_dataset_uuid"]
+    );
+
+    expect(annotations).toEqual({ source_dataset_uuid: raw.uuid });
+  });
+
+  it("does not change the annotations passed in", () => {
+    const existing = { project: "spectra" };
+
+    addProvenance("", existing, [raw], ["annotations.source_dataset_uuid"]);
+
+    expect(existing).toEqual({ project: "spectra" });
+  });
+
+  it.each<[string, string, Record<string, unknown>, string[]]>([
+    [
+      "an existing README key",
+      "derived_from: other\n",
+      {},
+      ["readme.derived_from.uuid"],
+    ],
+    [
+      "an existing annotation",
+      "",
+      { source_dataset_uuid: "other" },
+      ["annotations.source_dataset_uuid"],
+    ],
+    [
+      "the same key twice",
+      "",
+      {},
+      ["readme.derived_from.uuid", "readme.derived_from.id"],
+    ],
+  ])("refuses to overwrite %s", (_, readme, annotations, keys) => {
+    expect(() => addProvenance(readme, annotations, [raw], keys)).toThrow(
+      /^Cannot record provenance under /
+    );
+  });
+
+  it.each(["overlays.source", "readme", "readme..uuid", "derived_from.uuid"])(
+    "refuses the unsupported key %j",
+    (key) => {
+      expect(() => addProvenance("", {}, [raw], [key])).toThrow(
+        `Unsupported dependency key ${key}`
+      );
+    }
+  );
+
+  it("refuses a README that is not a mapping", () => {
+    expect(() => addProvenance("- a\n- b\n", {}, [raw])).toThrow(DServerError);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Provenance records for derived datasets
+ */
+
+import { parseReadme, readmeText, ReadmeDocument } from "./readme";
+import { DatasetSource, DServerError } from "./types";
+
+/**
+ * Dependency keys read by the dependency graph plugin by default
+ */
+export const DEFAULT_DEPENDENCY_KEYS = ["readme.derived_from.uuid"];
+
+/**
+ * Record the source datasets of a derived dataset in its README and
+ * annotations, under the dependency keys the dependency graph plugin reads.
+ *
+ * A key is a dotted path starting with `readme.` or `annotations.`. Its last
+ * segment is the field holding the source UUID. With a longer path, a list
+ * of entries with `uuid`, `name` and `uri` is written at the path before it:
+ * `readme.derived_from.uuid` produces
+ *
+ * ```yaml
+ * derived_from:
+ *   - uuid: 1a1f9fad-8589-413e-9602-5bbd66bfe675
+ *     name: raw-data
+ * ```
+ *
+ * A single segment (`annotations.source_dataset_uuid`) holds the UUID
+ * itself, or a list of UUIDs for several sources.
+ *
+ * @param readme - README content (YAML string or parsed document)
+ * @param annotations - Dataset annotations
+ * @param sources - Source datasets
+ * @param dependencyKeys - Keys to record the sources under
+ * @returns README and annotations with the provenance added
+ * @throws DServerError if a key is not supported or already has a value, or
+ *   the README is not a YAML mapping
+ */
+export function addProvenance(
+  readme: string | ReadmeDocument,
+  annotations: Record<string, unknown>,
+  sources: DatasetSource[],
+  dependencyKeys: string[] = DEFAULT_DEPENDENCY_KEYS
+): { readme: string; annotations: Record<string, unknown> } {
+  // Parse a copy, so a document passed in is not changed
+  const document = parseReadme(readmeText(readme) || "---\n");
+  const result = { ...annotations };
+  const written = new Set<string>();
+
+  for (const key of dependencyKeys) {
+    const [root, ...path] = key.split(".");
+    if (
+      (root !== "readme" && root !== "annotations") ||
+      path.length === 0 ||
+      path.includes("")
+    ) {
+      throw new DServerError(
+        `Unsupported dependency key ${key}; keys start with "readme." or ` +
+          `"annotations."`
+      );
+    }
+
+    const [name] = path;
+    const field = path[path.length - 1];
+    const value =
+      path.length === 1
+        ? sources.length === 1
+          ? sources[0].uuid
+          : sources.map((source) => source.uuid)
+        : path.slice(1, -1).reduceRight<unknown>(
+            (inner, segment) => ({ [segment]: inner }),
+            sources.map((source) => ({
+              [field]: source.uuid,
+              ...(source.name !== undefined && { name: source.name }),
+              ...(source.uri !== undefined && { uri: source.uri }),
+            }))
+          );
+
+    const exists = root === "readme" ? document.has([name]) : name in result;
+    if (exists || written.has(`${root}.${name}`)) {
+      throw new DServerError(
+        `Cannot record provenance under ${key}: ${root} already has ${name}`
+      );
+    }
+    written.add(`${root}.${name}`);
+
+    if (root === "readme") {
+      document.set([name], value);
+    } else {
+      result[name] = value;
+    }
+  }
+
+  return { readme: document.toString(), annotations: result };
+}
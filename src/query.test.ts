@@ -0,0 +1,276 @@
+import { describe, expect, it, vi } from "vitest";
+import { DServerClient } from "./client";
+import { SearchQueryBuilder } from "./query";
+import { DServerError } from "./types";
+import { collectAll } from "./utils";
+
+describe("SearchQueryBuilder", () => {
+  it("builds the search query and pagination", () => {
+    const search = new SearchQueryBuilder()
+      .freeText("tensile test")
+      .creator("jane")
+      .baseUri("s3://raw")
+      .uuid("1a1f9fad-8589-413e-9602-5bbd66bfe675")
+      .tag("raw", "validated")
+      .tag("raw")
+      .uploadedBy("ci")
+      .sortBy("frozen_at", "desc")
+      .sortBy("name")
+      .page(2)
+      .pageSize(50);
+
+    expect(search.toRequest()).toEqual({
+      query: {
+        free_text: "tensile test",
+        creator_usernames: ["jane"],
+        base_uris: ["s3://raw"],
+        uuids: ["1a1f9fad-8589-413e-9602-5bbd66bfe675"],
+        tags: ["raw", "validated"],
+        uploaded_by: ["ci"],
+      },
+      pagination: { page: 2, page_size: 50, sort: "-frozen_at,name" },
+    });
+  });
+
+  it("replaces the direction of a key sorted by again", () => {
+    const search = new SearchQueryBuilder()
+      .sortBy("name")
+      .sortBy("size_in_bytes", "desc")
+      .sortBy("name", "desc");
+
+    expect(search.getSort()).toEqual([
+      { key: "size_in_bytes", direction: "desc" },
+      { key: "name", direction: "desc" },
+    ]);
+  });
+
+  it("rejects unknown sort keys", () => {
+    expect(() => new SearchQueryBuilder().sortBy("owner" as never)).toThrow(
+      DServerError
+    );
+  });
+
+  it.each([0, -1, 1.5, NaN])("rejects the page and page size %d", (value) => {
+    const search = new SearchQueryBuilder();
+
+    expect(() => search.page(value)).toThrow(DServerError);
+    expect(() => search.page(value)).toThrow(
+      `Page must be a positive integer, got ${value}`
+    );
+    expect(() => search.pageSize(value)).toThrow(
+      `Page size must be a positive integer, got ${value}`
+    );
+    expect(search.toRequest().pagination).toEqual({});
+  });
+
+  it("clears the free text with an empty string", () => {
+    const search = new SearchQueryBuilder().freeText("x").freeText("");
+
+    expect(search.build()).toEqual({});
+  });
+
+  it("does not expose its state through built queries", () => {
+    const search = new SearchQueryBuilder().tag("raw");
+    search.build().tags?.push("changed");
+
+    expect(search.build().tags).toEqual(["raw"]);
+  });
+
+  it("round-trips through URL query parameters", () => {
+    const search = new SearchQueryBuilder()
+      .freeText("a&b")
+      .tag("raw", "validated")
+      .creator("jane")
+      .sortBy("frozen_at", "desc")
+      .page(3)
+      .pageSize(20);
+
+    expect(search.toString()).toBe(
+      "q=a%26b&creator=jane&tag=raw&tag=validated&sort=-frozen_at&page=3&page_size=20"
+    );
+    expect(
+      SearchQueryBuilder.fromSearchParams(`?${search}`).toRequest()
+    ).toEqual(search.toRequest());
+  });
+
+  it("ignores invalid values in URL query parameters", () => {
+    const search = SearchQueryBuilder.fromSearchParams(
+      "tag=&tag=raw&sort=owner,-name&page=0&page_size=abc"
+    );
+
+    expect(search.toRequest()).toEqual({
+      query: { tags: ["raw"] },
+      pagination: { sort: "-name" },
+    });
+  });
+
+  it("starts from an existing query and pagination", () => {
+    const search = SearchQueryBuilder.from(
+      { free_text: "x", tags: ["raw"] },
+      { sort: "-name,uuid", page: 1 }
+    );
+
+    expect(search.toRequest()).toEqual({
+      query: { free_text: "x", tags: ["raw"] },
+      pagination: { page: 1, sort: "-name,uuid" },
+    });
+    expect(() => SearchQueryBuilder.from({}, { sort: "owner" })).toThrow(
+      DServerError
+    );
+    expect(() => SearchQueryBuilder.from({}, { page: 0 })).toThrow(
+      DServerError
+    );
+    expect(() => SearchQueryBuilder.from({}, { page_size: -10 })).toThrow(
+      DServerError
+    );
+  });
+
+  it("is sent by searchDatasets with its sort order and page", async () => {
+    const fetch = vi.fn<Parameters<typeof globalThis.fetch>, Promise<Response>>(
+      async () => new Response("[]")
+    );
+    const client = new DServerClient({ baseUrl: "http://dserver", fetch });
+
+    await client.searchDatasets(
+      new SearchQueryBuilder().tag("raw").sortBy("name", "desc").pageSize(10),
+      { page: 2 }
+    );
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("http://dserver/uris?page=2&page_size=10&sort=-name");
+    expect(init?.method).toBe("POST");
+    expect(JSON.parse(String(init?.body))).toEqual({ tags: ["raw"] });
+  });
+});
+
+/**
+ * Client searching `total` datasets, answering each page with the given
+ * page size. With `header`, pages carry an X-Pagination header.
+ */
+function searchClient(total: number, header = true) {
+  const fetch = vi.fn<Parameters<typeof globalThis.fetch>, Promise<Response>>(
+    async (input) => {
+      const params = new URL(String(input)).searchParams;
+      const page = Number(params.get("page"));
+      const perPage = Number(params.get("page_size") ?? total);
+      const data = Array.from(
+        {
+          length: Math.max(0, Math.min(perPage, total - (page - 1) * perPage)),
+        },
+        (_, i) => ({ uri: `s3://bucket/${(page - 1) * perPage + i}` })
+      );
+      const pages = Math.ceil(total / perPage);
+      return Response.json(data, {
+        headers: header
+          ? { "X-Pagination": JSON.stringify({ total, page, pages }) }
+          : {},
+      });
+    }
+  );
+  const client = new DServerClient({ baseUrl: "http://dserver", fetch });
+  const pages = () =>
+    fetch.mock.calls.map(([input]) =>
+      new URL(String(input)).searchParams.get("page")
+    );
+  return { client, fetch, pages };
+}
+
+const uris = (datasets: Array<{ uri: string }>) =>
+  datasets.map(({ uri }) => uri);
+
+describe("searchDatasetPages", () => {
+  it("follows the pages up to the last one in the pagination header", async () => {
+    const { client, fetch, pages } = searchClient(5);
+
+    const results = await collectAll(
+      client.searchAllDatasets(new SearchQueryBuilder().tag("raw"), {
+        pageSize: 2,
+        sort: "name",
+      })
+    );
+
+    expect(uris(results)).toEqual(
+      [0, 1, 2, 3, 4].map((i) => `s3://bucket/${i}`)
+    );
+    expect(pages()).toEqual(["1", "2", "3"]);
+    for (const [url, init] of fetch.mock.calls) {
+      expect(String(url)).toMatch(/\/uris\?page=\d&page_size=2&sort=name$/);
+      expect(JSON.parse(String(init?.body))).toEqual({ tags: ["raw"] });
+    }
+  });
+
+  it("stops at a short page without a pagination header", async () => {
+    const { client, pages } = searchClient(5, false);
+
+    const results = await collectAll(
+      client.searchAllDatasets({}, { pageSize: 2 })
+    );
+
+    expect(results).toHaveLength(5);
+    expect(pages()).toEqual(["1", "2", "3"]);
+  });
+
+  it("stops after the first page without a header or page size", async () => {
+    const { client, pages } = searchClient(5, false);
+
+    expect(await collectAll(client.searchAllDatasets({}))).toHaveLength(5);
+    expect(pages()).toEqual(["1"]);
+  });
+
+  it("stops at an empty page", async () => {
+    const { client, pages } = searchClient(4, false);
+
+    const results = await collectAll(
+      client.searchAllDatasets({}, { pageSize: 2 })
+    );
+
+    expect(results).toHaveLength(4);
+    expect(pages()).toEqual(["1", "2", "3"]);
+  });
+
+  it("starts at the page and page size of the builder", async () => {
+    const { client, pages } = searchClient(6);
+
+    const results = await collectAll(
+      client.searchDatasetPages(new SearchQueryBuilder().page(2).pageSize(2))
+    );
+
+    expect(results.map(({ data }) => uris(data))).toEqual([
+      ["s3://bucket/2", "s3://bucket/3"],
+      ["s3://bucket/4", "s3://bucket/5"],
+    ]);
+    expect(results[1].pagination).toMatchObject({ page: 3, pages: 3 });
+    expect(pages()).toEqual(["2", "3"]);
+  });
+
+  it("fetches a page only when the previous one has been consumed", async () => {
+    const { client, pages } = searchClient(10);
+
+    for await (const dataset of client.searchAllDatasets({}, { pageSize: 2 })) {
+      expect(dataset.uri).toBe("s3://bucket/0");
+      break;
+    }
+
+    expect(pages()).toEqual(["1"]);
+  });
+
+  it("stops when the signal is aborted", async () => {
+    const { client, pages } = searchClient(10);
+    const controller = new AbortController();
+    const seen: string[] = [];
+
+    const iterate = async () => {
+      for await (const dataset of client.searchAllDatasets(
+        {},
+        { pageSize: 2, signal: controller.signal }
+      )) {
+        seen.push(dataset.uri);
+        controller.abort();
+      }
+    };
+
+    await expect(iterate()).rejects.toMatchObject({ name: "AbortError" });
+    expect(seen).toEqual(["s3://bucket/0", "s3://bucket/1"]);
+    expect(pages()).toEqual(["1"]);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Fluent construction and URL serialization of dataset searches
+ */
+
+import {
+  DServerError,
+  PaginationParams,
+  SearchQuery,
+  SearchSort,
+  SearchSortKey,
+  SortDirection,
+} from "./types";
+
+/**
+ * Dataset fields the search can be sorted by
+ */
+export const SEARCH_SORT_KEYS: readonly SearchSortKey[] = [
+  "uuid",
+  "uri",
+  "base_uri",
+  "name",
+  "creator_username",
+  "created_at",
+  "frozen_at",
+  "number_of_items",
+  "size_in_bytes",
+  "uploaded_by",
+  "uploaded_at",
+];
+
+/**
+ * URL query parameter for each list field of a search query
+ */
+const LIST_PARAMS: Array<[param: string, field: keyof SearchQuery]> = [
+  ["creator", "creator_usernames"],
+  ["base_uri", "base_uris"],
+  ["uuid", "uuids"],
+  ["tag", "tags"],
+  ["uploaded_by", "uploaded_by"],
+];
+
+/**
+ * Builds a dataset search with its sort order and page.
+ *
+ * Filters of the same kind are alternatives (any of the tags), different
+ * kinds narrow the search, as in `SearchQuery`. The search can be written to
+ * and read from URL query parameters, so it can be kept in a bookmarkable
+ * URL:
+ *
+ * | Parameter     | Meaning                                  |
+ * | ------------- | ---------------------------------------- |
+ * | `q`           | free text                                |
+ * | `creator`     | creator username (repeatable)            |
+ * | `base_uri`    | base URI (repeatable)                    |
+ * | `uuid`        | dataset UUID (repeatable)                |
+ * | `tag`         | tag (repeatable)                         |
+ * | `uploaded_by` | registering identity (repeatable)        |
+ * | `sort`        | comma-separated keys, `-` for descending |
+ * | `page`        | page number                              |
+ * | `page_size`   | results per page                         |
+ *
+ * @example
+ * ```typescript
+ * const search = new SearchQueryBuilder()
+ *   .freeText("tensile test")
+ *   .tag("raw", "validated")
+ *   .creator("jane")
+ *   .sortBy("frozen_at", "desc")
+ *   .pageSize(50);
+ *
+ * const page = await client.searchDatasets(search);
+ * history.replaceState(null, "", `?${search}`);
+ *
+ * // Later, e.g. when the page is opened from a bookmark:
+ * const restored = SearchQueryBuilder.fromSearchParams(location.search);
+ * ```
+ */
+export class SearchQueryBuilder {
+  private query: SearchQuery = {};
+  private sorts: SearchSort[] = [];
+  private pageNumber?: number;
+  private size?: number;
+
+  /**
+   * Start from an existing query and pagination
+   *
+   * @throws DServerError if the sort, page or page size is not valid
+   */
+  static from(
+    query: SearchQuery,
+    pagination: PaginationParams = {}
+  ): SearchQueryBuilder {
+    const builder = new SearchQueryBuilder();
+    if (query.free_text) {
+      builder.freeText(query.free_text);
+    }
+    for (const [, field] of LIST_PARAMS) {
+      builder.add(field, (query[field] as string[] | undefined) ?? []);
+    }
+    if (pagination.sort) {
+      builder.sorts = parseSort(pagination.sort);
+    }
+    if (pagination.page !== undefined) {
+      builder.page(pagination.page);
+    }
+    if (pagination.page_size !== undefined) {
+      builder.pageSize(pagination.page_size);
+    }
+    return builder;
+  }
+
+  /**
+   * Read a search from URL query parameters. Values that are not valid,
+   * such as unknown sort keys or a page that is not a positive number, are
+   * ignored, so an edited link still opens.
+   *
+   * @param params - Query parameters, or a query string with or without "?"
+   */
+  static fromSearchParams(
+    params: URLSearchParams | string
+  ): SearchQueryBuilder {
+    const search =
+      typeof params === "string" ? new URLSearchParams(params) : params;
+    const builder = new SearchQueryBuilder();
+    const freeText = search.get("q");
+    if (freeText) {
+      builder.freeText(freeText);
+    }
+    for (const [param, field] of LIST_PARAMS) {
+      builder.add(field, search.getAll(param).filter(Boolean));
+    }
+    const sort = search.get("sort");
+    if (sort) {
+      builder.sorts = parseSort(sort, false);
+    }
+    const page = positiveInteger(search.get("page"));
+    if (page !== undefined) {
+      builder.page(page);
+    }
+    const pageSize = positiveInteger(search.get("page_size"));
+    if (pageSize !== undefined) {
+      builder.pageSize(pageSize);
+    }
+    return builder;
+  }
+
+  /**
+   * Set the free-text search, or clear it with an empty string
+   */
+  freeText(text: string): this {
+    if (text) {
+      this.query.free_text = text;
+    } else {
+      delete this.query.free_text;
+    }
+    return this;
+  }
+
+  /**
+   * Match datasets created by any of these users
+   */
+  creator(...usernames: string[]): this {
+    return this.add("creator_usernames", usernames);
+  }
+
+  /**
+   * Match datasets in any of these base URIs
+   */
+  baseUri(...baseUris: string[]): this {
+    return this.add("base_uris", baseUris);
+  }
+
+  /**
+   * Match datasets with any of these UUIDs
+   */
+  uuid(...uuids: string[]): this {
+    return this.add("uuids", uuids);
+  }
+
+  /**
+   * Match datasets with any of these tags
+   */
+  tag(...tags: string[]): this {
+    return this.add("tags", tags);
+  }
+
+  /**
+   * Match datasets registered by any of these identities
+   */
+  uploadedBy(...identities: string[]): this {
+    return this.add("uploaded_by", identities);
+  }
+
+  /**
+   * Sort by a field; later calls add tie-breakers. Sorting by a field again
+   * replaces its earlier direction.
+   */
+  sortBy(key: SearchSortKey, direction: SortDirection = "asc"): this {
+    if (!SEARCH_SORT_KEYS.includes(key)) {
+      throw new DServerError(`Cannot sort by ${key}`);
+    }
+    this.sorts = this.sorts.filter((sort) => sort.key !== key);
+    this.sorts.push({ key, direction });
+    return this;
+  }
+
+  /**
+   * Set the page to fetch (1-based)
+   *
+   * @throws DServerError if the page is not a positive integer
+   */
+  page(page: number): this {
+    this.pageNumber = requirePositiveInteger("Page", page);
+    return this;
+  }
+
+  /**
+   * Set the number of results per page
+   *
+   * @throws DServerError if the page size is not a positive integer
+   */
+  pageSize(pageSize: number): this {
+    this.size = requirePositiveInteger("Page size", pageSize);
+    return this;
+  }
+
+  /**
+   * The search query sent as the request body
+   */
+  build(): SearchQuery {
+    const query: SearchQuery = { ...this.query };
+    for (const [, field] of LIST_PARAMS) {
+      if (query[field]) {
+        (query[field] as string[]) = [...(query[field] as string[])];
+      }
+    }
+    return query;
+  }
+
+  /**
+   * The sort order, in the order keys were added
+   */
+  getSort(): SearchSort[] {
+    return this.sorts.map((sort) => ({ ...sort }));
+  }
+
+  /**
+   * The pagination parameters sent as query parameters
+   */
+  toPagination(): PaginationParams {
+    const pagination: PaginationParams = {};
+    if (this.pageNumber !== undefined) pagination.page = this.pageNumber;
+    if (this.size !== undefined) pagination.page_size = this.size;
+    if (this.sorts.length > 0) pagination.sort = formatSort(this.sorts);
+    return pagination;
+  }
+
+  /**
+   * Query and pagination as passed to `DServerClient.searchDatasets`
+   */
+  toRequest(): { query: SearchQuery; pagination: PaginationParams } {
+    return { query: this.build(), pagination: this.toPagination() };
+  }
+
+  /**
+   * The search as URL query parameters
+   */
+  toSearchParams(): URLSearchParams {
+    const params = new URLSearchParams();
+    if (this.query.free_text) {
+      params.set("q", this.query.free_text);
+    }
+    for (const [param, field] of LIST_PARAMS) {
+      for (const value of (this.query[field] as string[] | undefined) ?? []) {
+        params.append(param, value);
+      }
+    }
+    const { page, page_size, sort } = this.toPagination();
+    if (sort) params.set("sort", sort);
+    if (page !== undefined) params.set("page", String(page));
+    if (page_size !== undefined) params.set("page_size", String(page_size));
+    return params;
+  }
+
+  /**
+   * The search as a URL query string, without "?"
+   */
+  toString(): string {
+    return this.toSearchParams().toString();
+  }
+
+  private add(field: keyof SearchQuery, values: string[]): this {
+    if (values.length === 0) return this;
+    const current = (this.query[field] as string[] | undefined) ?? [];
+    (this.query[field] as string[]) = [
+      ...current,
+      ...values.filter((value) => !current.includes(value)),
+    ];
+    return this;
+  }
+}
+
+/**
+ * Split a search request given as a query or a builder into the request
+ * body and its pagination parameters
+ */
+export function toSearchRequest(query: SearchQuery | SearchQueryBuilder): {
+  query: SearchQuery;
+  pagination: PaginationParams;
+} {
+  return query instanceof SearchQueryBuilder
+    ? query.toRequest()
+    : { query, pagination: {} };
+}
+
+/**
+ * Parse a sort parameter such as "-frozen_at,name". Unknown keys throw, or
+ * are skipped if `strict` is false.
+ */
+function parseSort(sort: string, strict = true): SearchSort[] {
+  const sorts: SearchSort[] = [];
+  for (const part of sort.split(",")) {
+    const term = part.trim();
+    if (!term) continue;
+    const direction: SortDirection = term.startsWith("-") ? "desc" : "asc";
+    const key = term.replace(/^[-+]/, "") as SearchSortKey;
+    if (!SEARCH_SORT_KEYS.includes(key)) {
+      if (strict) {
+        throw new DServerError(`Cannot sort by ${key}`);
+      }
+      continue;
+    }
+    if (!sorts.some((existing) => existing.key === key)) {
+      sorts.push({ key, direction });
+    }
+  }
+  return sorts;
+}
+
+function formatSort(sorts: SearchSort[]): string {
+  return sorts
+    .map(({ key, direction }) => (direction === "desc" ? `-${key}` : key))
+    .join(",");
+}
+
+function positiveInteger(value: string | null): number | undefined {
+  const number = Number(value);
+  return value && Number.isInteger(number) && number > 0 ? number : undefined;
+}
+
+function requirePositiveInteger(name: string, value: number): number {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new DServerError(`${name} must be a positive integer, got ${value}`);
+  }
+  return value;
+}
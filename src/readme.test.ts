@@ -0,0 +1,208 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseReadme,
+  readmeText,
+  requireValidReadme,
+  validateReadme,
+} from "./readme";
+import {
+  DServerError,
+  ReadmeSchema,
+  ReadmeValidationError,
+  ReadmeValidationProblem,
+} from "./types";
+
+const README = `---
+# Tensile tests of the March run
+description: Tensile tests # short summary
+project: materials
+owners:
+  - name: Jane
+    email: jane@example.com
+draft: true
+`;
+
+const codes = (problems: ReadmeValidationProblem[]) =>
+  problems.map(({ code, path }) => [code, path]);
+
+describe("ReadmeDocument", () => {
+  it("reads values by dotted path or key list", () => {
+    const readme = parseReadme(README);
+
+    expect(readme.get("description")).toBe("Tensile tests");
+    expect(readme.get("owners.0.name")).toBe("Jane");
+    expect(readme.get(["owners", 0])).toEqual({
+      name: "Jane",
+      email: "jane@example.com",
+    });
+    expect(readme.get("missing.key")).toBeUndefined();
+    expect(readme.has("draft")).toBe(true);
+    expect(readme.has("owners.1")).toBe(false);
+  });
+
+  it("writes back changes and keeps comments and key order", () => {
+    const readme = parseReadme(README);
+
+    readme.set("description", "Tensile tests, repeated");
+    readme.set(["owners", 0, "email"], "jane@lab.example.com");
+    readme.set("funding.grant", "ERC-123");
+    expect(readme.delete("draft")).toBe(true);
+
+    expect(readme.toString()).toBe(`---
+# Tensile tests of the March run
+description: Tensile tests, repeated # short summary
+project: materials
+owners:
+  - name: Jane
+    email: jane@lab.example.com
+funding:
+  grant: ERC-123
+`);
+    expect(parseReadme(readme.toString()).toJSON()).toEqual(readme.toJSON());
+  });
+
+  it("replaces a scalar with a mapping or list", () => {
+    const readme = parseReadme("project: materials\n");
+
+    readme.set("project", { name: "materials", phase: 2 });
+    readme.set("tags", ["raw"]);
+
+    expect(readme.toJSON()).toEqual({
+      project: { name: "materials", phase: 2 },
+      tags: ["raw"],
+    });
+  });
+
+  it.each(["", "---\n", "{}\n"])(
+    "starts a mapping in the empty README %j",
+    (text) => {
+      const readme = parseReadme(text);
+      expect(readme.toString()).toBe("---\n");
+
+      readme.set("description", "Tensile tests");
+
+      expect(readme.toJSON()).toEqual({ description: "Tensile tests" });
+    }
+  );
+
+  it.each<[string, string]>([
+    ["project.name", "Cannot set README value project.name: "],
+    ["owners.lead", "Cannot set README value owners.lead: "],
+  ])("refuses to set %s", (path, message) => {
+    const readme = parseReadme(README);
+
+    expect(() => readme.set(path, "x")).toThrow(DServerError);
+    expect(() => readme.set(path, "x")).toThrow(message);
+    expect(readme.toString()).toBe(README);
+  });
+
+  it("deletes only values that are set", () => {
+    const readme = parseReadme(README);
+
+    expect(readme.delete("missing")).toBe(false);
+    expect(readme.delete("missing.key")).toBe(false);
+    expect(readme.delete("project.name")).toBe(false);
+    expect(readme.delete("owners.0.email")).toBe(true);
+    expect(readme.get("owners")).toEqual([{ name: "Jane" }]);
+  });
+
+  it.each<[string, string]>([
+    ["key: [unclosed\n", "README is not valid YAML: "],
+    ["- a\n- b\n", "README must be a YAML mapping"],
+    ["just text\n", "README must be a YAML mapping"],
+  ])("refuses to parse %j", (text, message) => {
+    expect(() => parseReadme(text)).toThrow(DServerError);
+    expect(() => parseReadme(text)).toThrow(message);
+  });
+
+  it("is written as YAML by readmeText", () => {
+    expect(readmeText(parseReadme(README))).toBe(README);
+    expect(readmeText("text")).toBe("text");
+  });
+});
+
+describe("validateReadme", () => {
+  const schema: ReadmeSchema = {
+    required: ["description", "project", "owners"],
+    properties: {
+      description: { type: "string", minLength: 5 },
+      project: { enum: ["materials", "spectra"] },
+      owners: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          required: ["name"],
+          properties: { email: { type: "string", pattern: "^[^@]+@[^@]+$" } },
+        },
+      },
+      runs: { type: "integer" },
+    },
+  };
+
+  it("accepts a README matching the schema", () => {
+    expect(validateReadme(README, schema)).toEqual({
+      valid: true,
+      problems: [],
+    });
+    expect(parseReadme(README).validate(schema).valid).toBe(true);
+  });
+
+  it("reports every problem with its path", () => {
+    const result = validateReadme(
+      `description: Tens
+project: chemistry
+owners:
+  - email: not-an-email
+runs: 1.5
+`,
+      schema
+    );
+
+    expect(result.valid).toBe(false);
+    expect(codes(result.problems)).toEqual([
+      ["min-length", "description"],
+      ["enum", "project"],
+      ["missing", "owners.0.name"],
+      ["pattern", "owners.0.email"],
+      ["type", "runs"],
+    ]);
+    expect(result.problems[4].message).toBe("Expected integer, got number");
+  });
+
+  it("reports missing keys and empty lists", () => {
+    const result = validateReadme("owners: []\n", schema);
+
+    expect(codes(result.problems)).toEqual([
+      ["missing", "description"],
+      ["missing", "project"],
+      ["min-items", "owners"],
+    ]);
+  });
+
+  it("reports invalid YAML as a problem", () => {
+    const result = validateReadme("key: [unclosed\n", schema);
+
+    expect(result.valid).toBe(false);
+    expect(codes(result.problems)).toEqual([["invalid-yaml", ""]]);
+  });
+
+  it("throws a ReadmeValidationError from requireValidReadme", () => {
+    let error: unknown;
+    try {
+      requireValidReadme("project: materials\n", schema);
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(error).toBeInstanceOf(ReadmeValidationError);
+    expect((error as ReadmeValidationError).message).toBe(
+      "README does not match the schema: description: Required key " +
+        "description is missing; owners: Required key owners is missing"
+    );
+    expect(codes((error as ReadmeValidationError).problems)).toEqual([
+      ["missing", "description"],
+      ["missing", "owners"],
+    ]);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Structured access to dataset READMEs (README.yml)
+ */
+
+import { Document, isMap, isNode, isScalar, parseDocument } from "yaml";
+import {
+  DServerError,
+  ReadmeFieldSchema,
+  ReadmeSchema,
+  ReadmeValidationCode,
+  ReadmeValidationError,
+  ReadmeValidationProblem,
+  ReadmeValidationResult,
+} from "./types";
+
+/**
+ * Path of a README value: a dotted string ("owners.0.name") or a list of
+ * keys and list indices
+ */
+export type ReadmePath = string | Array<string | number>;
+
+/**
+ * A parsed dataset README.
+ *
+ * Values are read and changed by path. Comments, key order and formatting of
+ * everything that is not changed are kept when the README is written back
+ * with `toString()`.
+ *
+ * @example
+ * ```typescript
+ * const readme = parseReadme(await client.downloadReadme(urls));
+ * readme.set("project", "battery-aging");
+ * readme.set(["owners", 0, "email"], "jane@example.com");
+ * readme.delete("draft");
+ * await client.setReadme(uri, readme);
+ * ```
+ */
+export class ReadmeDocument {
+  private constructor(private readonly document: Document) {}
+
+  /**
+   * Parse README content
+   *
+   * @throws DServerError if the content is not valid YAML or not a mapping
+   */
+  static parse(text: string): ReadmeDocument {
+    const document = parseDocument(text);
+    if (document.errors.length > 0) {
+      throw new DServerError(
+        `README is not valid YAML: ${document.errors[0].message}`
+      );
+    }
+    const contents = document.toJS();
+    if (
+      contents !== null &&
+      contents !== undefined &&
+      (typeof contents !== "object" || Array.isArray(contents))
+    ) {
+      throw new DServerError("README must be a YAML mapping");
+    }
+    return new ReadmeDocument(document);
+  }
+
+  /**
+   * Get a value as plain data, or undefined if it is not set
+   */
+  get(path: ReadmePath): unknown {
+    const node = this.document.getIn(toKeys(path), true);
+    return isNode(node) ? node.toJSON() : node;
+  }
+
+  /**
+   * Whether a value is set
+   */
+  has(path: ReadmePath): boolean {
+    return this.document.hasIn(toKeys(path));
+  }
+
+  /**
+   * Set a value, creating missing parent mappings. A comment on a replaced
+   * scalar value is kept.
+   *
+   * @throws DServerError if the path runs through a value that is not a
+   *   mapping or list, or indexes a list with a key
+   */
+  set(path: ReadmePath, value: unknown): this {
+    const keys = toKeys(path);
+    if (isEmpty(this.document)) {
+      // An empty README holds a null scalar; start a mapping instead
+      this.document.contents = null;
+    }
+    const node = this.document.getIn(keys, true);
+    if (isScalar(node) && (value === null || typeof value !== "object")) {
+      node.value = value;
+      return this;
+    }
+    try {
+      this.document.setIn(keys, this.document.createNode(value));
+    } catch (error) {
+      throw new DServerError(
+        `Cannot set README value ${keys.join(".")}: ${(error as Error).message}`
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Remove a value
+   *
+   * @returns Whether a value was removed
+   */
+  delete(path: ReadmePath): boolean {
+    // deleteIn throws on a path through a missing or scalar value
+    return this.has(path) && this.document.deleteIn(toKeys(path));
+  }
+
+  /**
+   * Check the README against a schema
+   */
+  validate(schema: ReadmeSchema): ReadmeValidationResult {
+    const problems: ReadmeValidationProblem[] = [];
+    validateValue(this.toJSON(), { ...schema, type: "object" }, [], problems);
+    return { valid: problems.length === 0, problems };
+  }
+
+  /**
+   * The README as plain data
+   */
+  toJSON(): Record<string, unknown> {
+    return (this.document.toJS() as Record<string, unknown> | null) ?? {};
+  }
+
+  /**
+   * The README as YAML
+   */
+  toString(): string {
+    // An empty README is written as a bare document start
+    return isEmpty(this.document) ? "---\n" : this.document.toString();
+  }
+}
+
+/**
+ * Parse README content into a ReadmeDocument
+ */
+export function parseReadme(text: string): ReadmeDocument {
+  return ReadmeDocument.parse(text);
+}
+
+/**
+ * Check README content against a schema. Content that is not valid YAML is
+ * reported as a problem rather than thrown.
+ *
+ * @param readme - README content or parsed document
+ * @param schema - Required keys and value schemas
+ * @returns Whether the README is valid and the problems found
+ *
+ * @example
+ * ```typescript
+ * const { valid, problems } = validateReadme(text, {
+ *   required: ["description", "project", "owners"],
+ * });
+ * ```
+ */
+export function validateReadme(
+  readme: string | ReadmeDocument,
+  schema: ReadmeSchema
+): ReadmeValidationResult {
+  if (typeof readme === "string") {
+    try {
+      readme = ReadmeDocument.parse(readme);
+    } catch (error) {
+      return {
+        valid: false,
+        problems: [
+          {
+            code: "invalid-yaml",
+            path: "",
+            message: (error as Error).message,
+          },
+        ],
+      };
+    }
+  }
+  return readme.validate(schema);
+}
+
+/**
+ * Check a README against a schema and throw a ReadmeValidationError listing
+ * its problems if it does not match
+ */
+export function requireValidReadme(
+  readme: string | ReadmeDocument,
+  schema: ReadmeSchema
+): void {
+  const { valid, problems } = validateReadme(readme, schema);
+  if (!valid) {
+    throw new ReadmeValidationError(
+      `README does not match the schema: ` +
+        problems
+          .slice(0, 5)
+          .map((problem) =>
+            problem.path
+              ? `${problem.path}: ${problem.message}`
+              : problem.message
+          )
+          .join("; ") +
+        (problems.length > 5 ? "; ..." : ""),
+      problems
+    );
+  }
+}
+
+/**
+ * README content as YAML
+ */
+export function readmeText(readme: string | ReadmeDocument): string {
+  return typeof readme === "string" ? readme : readme.toString();
+}
+
+function isEmpty(document: Document): boolean {
+  const contents = document.contents;
+  return (
+    contents === null ||
+    (isScalar(contents) && contents.value === null) ||
+    (isMap(contents) && contents.items.length === 0)
+  );
+}
+
+function toKeys(path: ReadmePath): Array<string | number> {
+  return typeof path === "string" ? path.split(".") : path;
+}
+
+function validateValue(
+  value: unknown,
+  schema: ReadmeFieldSchema,
+  path: Array<string | number>,
+  problems: ReadmeValidationProblem[]
+): void {
+  const report = (code: ReadmeValidationCode, message: string) =>
+    problems.push({ code, path: path.join("."), message });
+
+  if (schema.type && !hasType(value, schema.type)) {
+    report("type", `Expected ${schema.type}, got ${typeName(value)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+    report(
+      "enum",
+      `Must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`
+    );
+  }
+  if (typeof value === "string") {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      report("pattern", `Does not match ${schema.pattern}`);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report("min-length", `Must have at least ${schema.minLength} characters`);
+    }
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report("min-items", `Must have at least ${schema.minItems} entries`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) =>
+        validateValue(item, schema.items!, [...path, i], problems)
+      );
+    }
+  }
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined || object[key] === null) {
+        problems.push({
+          code: "missing",
+          path: [...path, key].join("."),
+          message: `Required key ${key} is missing`,
+        });
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (object[key] !== undefined && object[key] !== null) {
+        validateValue(object[key], property, [...path, key], problems);
+      }
+    }
+  }
+}
+
+function hasType(
+  value: unknown,
+  type: NonNullable<ReadmeFieldSchema["type"]>
+): boolean {
+  switch (type) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        value !== null && typeof value === "object" && !Array.isArray(value)
+      );
+    case "integer":
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DServerClient } from "./client";
+import { DatasetSignedURLsResponse, SignedURLExpiredError } from "./types";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * A client whose server hands out signed URLs valid for `expiresIn` seconds.
+ * Storage answers item requests through `storage`.
+ */
+function createClient(storage: (url: string) => Response, expiresIn = 600) {
+  let issued = 0;
+  const fetch = vi.fn<Parameters<typeof globalThis.fetch>, Promise<Response>>(
+    async (input) => {
+      const url = String(input);
+      if (!url.startsWith("http://dserver/signed-urls/dataset/")) {
+        return storage(url);
+      }
+      issued += 1;
+      const urls: DatasetSignedURLsResponse = {
+        uri: "s3://bucket/uuid",
+        expiry_seconds: expiresIn,
+        expiry_timestamp: new Date(Date.now() + expiresIn * 1000).toISOString(),
+        admin_metadata_url: `https://storage/dtool?sig=${issued}`,
+        manifest_url: `https://storage/manifest.json?sig=${issued}`,
+        readme_url: `https://storage/README.yml?sig=${issued}`,
+        item_urls: { abc: `https://storage/data/abc?sig=${issued}` },
+        overlay_urls: {},
+        annotation_urls: {},
+        tags: [],
+      };
+      return Response.json(urls);
+    }
+  );
+  const client = new DServerClient({ baseUrl: "http://dserver", fetch });
+  const signedUrlRequests = () =>
+    fetch.mock.calls.filter(([input]) => String(input).includes("/signed-urls"))
+      .length;
+  return { client, fetch, signedUrlRequests };
+}
+
+describe("DatasetSession", () => {
+  it("renews the URLs within a minute of their expiry", async () => {
+    vi.useFakeTimers();
+    const { client, signedUrlRequests } = createClient(
+      () => new Response("content")
+    );
+    const session = client.openDataset("s3://bucket/uuid");
+
+    const first = await session.getUrls();
+    await vi.advanceTimersByTimeAsync(539_000);
+    expect(await session.getUrls()).toBe(first);
+    expect(signedUrlRequests()).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(2_000);
+    const renewed = await session.getUrls();
+    expect(renewed).not.toBe(first);
+    expect(renewed.item_urls.abc).toBe("https://storage/data/abc?sig=2");
+    expect(signedUrlRequests()).toBe(2);
+  });
+
+  it("shares one renewal between concurrent callers", async () => {
+    const { client, signedUrlRequests } = createClient(
+      () => new Response("content")
+    );
+    const session = client.openDataset("s3://bucket/uuid");
+
+    const [a, b] = await Promise.all([session.getUrls(), session.getUrls()]);
+    expect(a).toBe(b);
+    expect(signedUrlRequests()).toBe(1);
+  });
+
+  it("renews the URLs once when storage rejects them", async () => {
+    const { client, fetch, signedUrlRequests } = createClient((url) =>
+      url.endsWith("sig=1")
+        ? new Response("expired", { status: 403 })
+        : new Response("content")
+    );
+    const session = client.openDataset("s3://bucket/uuid");
+
+    const content = await session.downloadItem("abc");
+    expect(new TextDecoder().decode(content)).toBe("content");
+    expect(signedUrlRequests()).toBe(2);
+    expect(
+      fetch.mock.calls
+        .map(([input]) => String(input))
+        .filter((url) => url.startsWith("https://storage/"))
+    ).toEqual([
+      "https://storage/data/abc?sig=1",
+      "https://storage/data/abc?sig=2",
+    ]);
+  });
+
+  it("gives up when the renewed URLs are rejected too", async () => {
+    const { client, signedUrlRequests } = createClient(
+      () => new Response("expired", { status: 403 })
+    );
+    const session = client.openDataset("s3://bucket/uuid");
+
+    await expect(session.downloadItem("abc")).rejects.toThrow(
+      SignedURLExpiredError
+    );
+    expect(signedUrlRequests()).toBe(2);
+  });
+});
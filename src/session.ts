@@ -0,0 +1,204 @@
+/**
+ * Dataset sessions with automatic signed-URL renewal
+ */
+
+import type { DServerClient } from "./client";
+import {
+  AdminMetadata,
+  DatasetSessionOptions,
+  DatasetSignedURLsResponse,
+  DownloadOptions,
+  Manifest,
+  RequestOptions,
+  SignedURLExpiredError,
+} from "./types";
+
+/**
+ * A long-lived handle on a dataset's signed URLs.
+ *
+ * The session fetches the URL set on first use and renews it shortly before
+ * it expires. If storage still rejects a URL (HTTP 403), the URL set is
+ * renewed once and the failed transfer is retried.
+ *
+ * Expiry is tracked from the local time the URLs were fetched plus
+ * `expiry_seconds`, so it is not affected by clock skew between client and
+ * server.
+ *
+ * @example
+ * ```typescript
+ * const session = client.openDataset("s3://bucket/uuid");
+ * const manifest = await session.downloadManifest();
+ * const content = await session.downloadItem(identifier);
+ * ```
+ */
+export class DatasetSession {
+  private currentUrls?: DatasetSignedURLsResponse;
+  private expiresAt = 0;
+  private renewal?: Promise<DatasetSignedURLsResponse>;
+  private renewBeforeExpiry: number;
+  private requestOptions: RequestOptions;
+
+  constructor(
+    private readonly client: DServerClient,
+    public readonly uri: string,
+    options: DatasetSessionOptions = {}
+  ) {
+    this.renewBeforeExpiry = options.renewBeforeExpiry ?? 60;
+    this.requestOptions = { signal: options.signal, retry: options.retry };
+    if (options.urls) {
+      this.setUrls(options.urls);
+    }
+  }
+
+  /**
+   * The most recently fetched signed URLs, if any
+   */
+  get urls(): DatasetSignedURLsResponse | undefined {
+    return this.currentUrls;
+  }
+
+  /**
+   * Get valid signed URLs, renewing them if they are about to expire
+   */
+  async getUrls(): Promise<DatasetSignedURLsResponse> {
+    const margin = this.renewBeforeExpiry * 1000;
+    if (this.currentUrls && Date.now() + margin < this.expiresAt) {
+      return this.currentUrls;
+    }
+    return this.renew();
+  }
+
+  /**
+   * Fetch a fresh set of signed URLs. Concurrent callers share one request,
+   * which uses the signal and retry policy the session was opened with.
+   */
+  async renew(): Promise<DatasetSignedURLsResponse> {
+    if (!this.renewal) {
+      this.requestOptions.signal?.throwIfAborted();
+      this.renewal = this.client
+        .getDatasetSignedUrls(this.uri, this.requestOptions)
+        .then((urls) => {
+          this.setUrls(urls);
+          return urls;
+        })
+        .finally(() => {
+          this.renewal = undefined;
+        });
+    }
+    return this.renewal;
+  }
+
+  /**
+   * Download a dataset item
+   */
+  async downloadItem(
+    identifier: string,
+    options: DownloadOptions = {}
+  ): Promise<ArrayBuffer> {
+    return this.withRenewal(
+      (urls) => this.client.downloadItem(urls, identifier, options),
+      options
+    );
+  }
+
+  /**
+   * Stream a dataset item
+   */
+  async streamItem(
+    identifier: string,
+    options: DownloadOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    return this.withRenewal(
+      (urls) => this.client.streamItem(urls, identifier, options),
+      options
+    );
+  }
+
+  /**
+   * Download and parse the dataset manifest
+   */
+  async downloadManifest(options: RequestOptions = {}): Promise<Manifest> {
+    return this.withRenewal(
+      (urls) => this.client.downloadManifest(urls, options),
+      options
+    );
+  }
+
+  /**
+   * Download and parse the dataset admin metadata
+   */
+  async downloadAdminMetadata(
+    options: RequestOptions = {}
+  ): Promise<AdminMetadata> {
+    return this.withRenewal(
+      (urls) => this.client.downloadAdminMetadata(urls, options),
+      options
+    );
+  }
+
+  /**
+   * Download the dataset README
+   */
+  async downloadReadme(options: RequestOptions = {}): Promise<string> {
+    return this.withRenewal(
+      (urls) => this.client.downloadReadme(urls, options),
+      options
+    );
+  }
+
+  /**
+   * Download an overlay
+   */
+  async downloadOverlay(
+    overlayName: string,
+    options: RequestOptions = {}
+  ): Promise<Record<string, unknown>> {
+    return this.withRenewal(
+      (urls) => this.client.downloadOverlay(urls, overlayName, options),
+      options
+    );
+  }
+
+  /**
+   * Download an annotation
+   */
+  async downloadAnnotation(
+    annotationName: string,
+    options: RequestOptions = {}
+  ): Promise<unknown> {
+    return this.withRenewal(
+      (urls) => this.client.downloadAnnotation(urls, annotationName, options),
+      options
+    );
+  }
+
+  /**
+   * Run a transfer with valid URLs; on a rejected signature renew the URLs
+   * once and try again. Once the transfer is aborted, URLs are no longer
+   * renewed for it.
+   */
+  private async withRenewal<T>(
+    fn: (urls: DatasetSignedURLsResponse) => Promise<T>,
+    options: RequestOptions
+  ): Promise<T> {
+    options.signal?.throwIfAborted();
+    const urls = await this.getUrls();
+    try {
+      return await fn(urls);
+    } catch (error) {
+      if (!(error instanceof SignedURLExpiredError)) {
+        throw error;
+      }
+      options.signal?.throwIfAborted();
+      // Another transfer may already have renewed the URLs meanwhile.
+      const renewed =
+        this.currentUrls !== urls ? await this.getUrls() : await this.renew();
+      return fn(renewed);
+    }
+  }
+
+  private setUrls(urls: DatasetSignedURLsResponse): void {
+    this.currentUrls = urls;
+    this.expiresAt = Date.now() + urls.expiry_seconds * 1000;
+  }
+}
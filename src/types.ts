@@ -2,16 +2,98 @@
  * Type definitions for dserver signed URL API
  */
 
+import type { ReadmeDocument } from "./readme";
+
+/**
+ * Supplies the current JWT authentication token, e.g. from an SSO session
+ */
+export interface TokenProvider {
+  (): string | undefined | Promise<string | undefined>;
+}
+
+/**
+ * A request on its way through the middleware chain
+ */
+export interface MiddlewareRequest {
+  /** "api" for dserver REST calls, "storage" for signed-URL transfers */
+  kind: "api" | "storage";
+  /** Absolute request URL */
+  url: string;
+  /** Fetch options; headers are always a Headers instance */
+  init: RequestInit & { headers: Headers };
+}
+
+/**
+ * Middleware wrapping every request the client makes.
+ *
+ * Call `next` with the (possibly modified) request to continue the chain and
+ * inspect or replace the response it resolves to. Note that extra headers on
+ * "storage" requests may be rejected by signed URLs or trigger CORS
+ * preflights in browsers.
+ */
+export interface Middleware {
+  (
+    request: MiddlewareRequest,
+    next: (request: MiddlewareRequest) => Promise<Response>
+  ): Promise<Response>;
+}
+
+/**
+ * Retry policy for transient failures
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  initialDelay?: number;
+  /**
+   * Upper bound for a single delay in milliseconds (default: 30000). A
+   * Retry-After longer than this is not waited for; the failure is returned.
+   */
+  maxDelay?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  backoffFactor?: number;
+  /** HTTP status codes that are retried (default: 429, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Retry when fetch fails without a response (default: true) */
+  retryOnNetworkError?: boolean;
+  /** Wait at least as long as a Retry-After header asks (default: true) */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Per-call options for REST and signed-URL requests
+ */
+export interface RequestOptions {
+  /** AbortSignal for cancellation */
+  signal?: AbortSignal;
+  /** Retry policy overriding the client's, or false to disable retries */
+  retry?: RetryPolicy | false;
+}
+
 /**
  * Configuration options for the DServerClient
  */
 export interface DServerClientConfig {
   /** Base URL of the dserver instance (e.g., "http://localhost:5000") */
   baseUrl: string;
-  /** JWT authentication token */
-  token?: string;
+  /** JWT authentication token, or a provider called before every request */
+  token?: string | TokenProvider;
+  /**
+   * Called when a request fails with 401. The request is replayed once
+   * afterwards. A returned string replaces a static token; with a token
+   * provider, the provider is asked again instead.
+   */
+  refreshToken?: () => Promise<string | void>;
   /** Optional fetch implementation (defaults to global fetch) */
   fetch?: typeof fetch;
+  /** Middleware applied to every request, in order */
+  middleware?: Middleware[];
+  /**
+   * Retry policy for idempotent REST calls and signed-URL transfers, or
+   * false to disable retries (default: enabled with default settings)
+   */
+  retry?: RetryPolicy | false;
 }
 
 /**
@@ -91,6 +173,33 @@ export interface UploadRequest {
   tags?: string[];
   /** Dataset annotations as key-value pairs */
   annotations?: Record<string, unknown>;
+  /** Relative paths of items to upload in parts */
+  multipart_items?: string[];
+  /** Requested part size in bytes for multipart items */
+  multipart_part_size?: number;
+}
+
+/**
+ * Signed URL for one part of a multipart item upload
+ */
+export interface UploadPartURL {
+  /** Part number, starting at 1 */
+  part_number: number;
+  /** Signed URL for uploading the part */
+  url: string;
+}
+
+/**
+ * Multipart upload set up by the server for a large item.
+ * Part n covers bytes [(n - 1) * part_size, n * part_size) of the item.
+ */
+export interface MultipartUploadInfo {
+  /** Storage upload ID, passed back when completing the upload */
+  upload_id: string;
+  /** Size of every part but the last, in bytes */
+  part_size: number;
+  /** Signed URLs for all parts */
+  parts: UploadPartURL[];
 }
 
 /**
@@ -101,6 +210,32 @@ export interface UploadItemURL {
   url: string;
   /** Relative path of the item */
   relpath: string;
+  /** Present if the item is to be uploaded in parts */
+  multipart?: MultipartUploadInfo;
+}
+
+/**
+ * An uploaded part of a multipart item upload
+ */
+export interface CompletedPart {
+  /** Part number, starting at 1 */
+  part_number: number;
+  /** ETag returned by storage for the part, if any */
+  etag?: string;
+}
+
+/**
+ * Request body for completing a multipart item upload
+ */
+export interface MultipartCompleteRequest {
+  /** Dataset URI */
+  uri: string;
+  /** Item identifier */
+  identifier: string;
+  /** Upload ID from the item's MultipartUploadInfo */
+  upload_id: string;
+  /** Uploaded parts in order */
+  parts: CompletedPart[];
 }
 
 /**
@@ -194,42 +329,349 @@ export interface ProgressCallback {
   (loaded: number, total: number, item?: string): void;
 }
 
+/**
+ * Phase of a dataset upload
+ */
+export type UploadPhase =
+  | "hashing"
+  | "uploading-readme"
+  | "uploading-items"
+  | "finalizing"
+  | "complete";
+
+/**
+ * Upload state of a single item
+ */
+export interface UploadItemProgress {
+  /** Relative path within the dataset */
+  relpath: string;
+  /** Bytes uploaded */
+  loaded: number;
+  /** Size of the item in bytes */
+  total: number;
+  /** Upload state of the item */
+  state: "pending" | "hashing" | "uploading" | "done" | "failed";
+}
+
+/**
+ * Structured progress of a dataset upload
+ */
+export interface UploadProgressEvent {
+  /** Current phase of the upload */
+  phase: UploadPhase;
+  /** Bytes hashed (hashing phase) or item bytes uploaded (other phases) */
+  loaded: number;
+  /** Total bytes to hash or upload */
+  total: number;
+  /** Throughput of the current phase, averaged over the last seconds */
+  bytesPerSecond: number;
+  /** Estimated seconds until the current phase is done, if known */
+  eta?: number;
+  /** Relative path of the item that caused this update */
+  item?: string;
+  /**
+   * State of every item by relpath. Updated in place as the upload
+   * progresses; copy it to keep a snapshot.
+   */
+  items: Readonly<Record<string, UploadItemProgress>>;
+}
+
+/**
+ * Byte range within an item, with offsets as in Blob.slice
+ */
+export interface ByteRange {
+  /** Offset of the first byte */
+  start: number;
+  /** Offset after the last byte (default: end of the item) */
+  end?: number;
+}
+
 /**
  * Options for download operations
  */
-export interface DownloadOptions {
+export interface DownloadOptions extends RequestOptions {
   /** Progress callback */
   onProgress?: ProgressCallback;
-  /** AbortSignal for cancellation */
-  signal?: AbortSignal;
+  /** Fetch only this byte range of the item */
+  range?: ByteRange;
+  /**
+   * How often an interrupted download is resumed from the last received
+   * byte (default: 0)
+   */
+  resumeAttempts?: number;
+  /**
+   * Check size and hash against the manifest entry and throw an
+   * IntegrityError on mismatch. Pass the manifest, or true to download it
+   * (needs the dataset signed URLs). Not available together with `range`.
+   */
+  verify?: boolean | Manifest;
 }
 
 /**
  * Options for upload operations
  */
-export interface UploadOptions {
-  /** Progress callback */
+export interface UploadOptions extends RequestOptions {
+  /** Progress callback, called as item bytes are sent */
   onProgress?: ProgressCallback;
-  /** AbortSignal for cancellation */
-  signal?: AbortSignal;
-  /** Dataset README content (YAML string) */
-  readme?: string;
+  /** Structured progress callback with phase, item states, throughput and ETA */
+  onUploadProgress?: (event: UploadProgressEvent) => void;
+  /** Progress callback for hashing files before the upload starts */
+  onHashProgress?: ProgressCallback;
+  /** Number of files hashed in parallel (default: 2) */
+  hashConcurrency?: number;
+  /** Number of items uploaded in parallel (default: 4) */
+  concurrency?: number;
+  /**
+   * How often a failed item upload is retried with backoff, on top of the
+   * request-level retry policy (default: 2)
+   */
+  itemRetries?: number;
+  /**
+   * Upload items of at least this many bytes in parts (default: 5 GiB).
+   * Fails before uploading if the server does not offer multipart uploads.
+   */
+  multipartThreshold?: number;
+  /** Requested part size in bytes for multipart uploads (default: 64 MiB) */
+  multipartPartSize?: number;
+  /** Dataset README content (YAML string or parsed document) */
+  readme?: string | ReadmeDocument;
+  /** Schema the README must match; checked before anything is uploaded */
+  readmeSchema?: ReadmeSchema;
   /** Dataset annotations */
   annotations?: Record<string, unknown>;
   /** Dataset tags */
   tags?: string[];
+  /** Dataset UUID (default: a new random UUID) */
+  uuid?: string;
+  /** Creator recorded in the admin metadata (default: the token subject) */
+  creatorUsername?: string;
+  /** Freeze time in seconds since the epoch (default: now) */
+  frozenAt?: number;
+  /** Store that records upload progress so the upload can be resumed */
+  journal?: UploadJournalStore;
+  /** Key of the journal entry (default: the dataset UUID) */
+  journalKey?: string;
+}
+
+/**
+ * Options for copying a dataset to another base URI. The dataset's UUID,
+ * name, creator, freeze time, README, tags and annotations are taken from
+ * the source.
+ */
+export interface CopyDatasetOptions extends Omit<
+  UploadOptions,
+  "readme" | "annotations" | "tags" | "uuid" | "creatorUsername" | "frozenAt"
+> {
+  /**
+   * Read the registered copy back: compare its admin metadata, manifest,
+   * README, tags and annotations with the source, and download every item
+   * to check it against the source manifest (default: true)
+   */
+  verify?: boolean;
 }
 
+/**
+ * Source dataset recorded in the provenance of a derived dataset
+ */
+export interface DatasetSource {
+  uuid: string;
+  name?: string;
+  uri?: string;
+}
+
+/**
+ * Options for creating a derived dataset
+ */
+export interface DerivedDatasetOptions extends UploadOptions {
+  /**
+   * Keys to record the source UUIDs under, as read by the dependency graph
+   * plugin (default: ["readme.derived_from.uuid"])
+   */
+  dependencyKeys?: string[];
+  /**
+   * Check that every source is registered on the server, using
+   * `getDataset` for URIs and `getDatasetsByUuid` for UUIDs (default: false)
+   */
+  verifySources?: boolean;
+}
+
+/**
+ * Persisted state of a dataset upload, used to resume it with
+ * `DServerClient.resumeUpload`
+ */
+export interface UploadJournal {
+  /** Journal format version */
+  version: 1;
+  /** Key the journal is stored under */
+  key: string;
+  /** Base URI the dataset is uploaded to */
+  base_uri: string;
+  /** Upload request with the dataset UUID and item metadata */
+  request: UploadRequest;
+  /** Dataset README content */
+  readme: string;
+  /** Signed upload URLs from the last `getUploadUrls` call */
+  upload_info?: UploadURLsResponse;
+  /** Local time (ms since epoch) the upload URLs were fetched */
+  upload_urls_fetched_at?: number;
+  /** Whether the README has been uploaded */
+  readme_uploaded: boolean;
+  /** Relative paths of items that have been uploaded */
+  completed: string[];
+}
+
+/**
+ * Persistence adapter for upload journals
+ */
+export interface UploadJournalStore {
+  /** Load a journal, or undefined if there is none under this key */
+  load(key: string): Promise<UploadJournal | undefined>;
+  /** Save a journal, replacing any previous state */
+  save(key: string, journal: UploadJournal): Promise<void>;
+  /** Delete a journal */
+  delete(key: string): Promise<void>;
+  /** Keys of all stored journals */
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Options for creating a proto-dataset
+ */
+export interface ProtoDatasetOptions {
+  /** Dataset UUID (default: a new random UUID) */
+  uuid?: string;
+  /** Creator recorded in the admin metadata (default: the token subject) */
+  creatorUsername?: string;
+  /** Initial README content (YAML string or parsed document) */
+  readme?: string | ReadmeDocument;
+  /** Initial tags */
+  tags?: string[];
+  /** Initial annotations */
+  annotations?: Record<string, unknown>;
+}
+
+/**
+ * Manifest a proto-dataset would be frozen with. Item timestamps are set
+ * when the dataset is frozen.
+ */
+export interface PendingManifest {
+  hash_function: string;
+  items: Record<string, Omit<ManifestItem, "utc_timestamp">>;
+}
+
+/**
+ * Options for a dataset session
+ */
+export interface DatasetSessionOptions extends RequestOptions {
+  /**
+   * Renew the signed URLs when fewer than this many seconds of validity
+   * remain (default: 60)
+   */
+  renewBeforeExpiry?: number;
+  /** Already fetched signed URLs to start the session with */
+  urls?: DatasetSignedURLsResponse;
+}
+
+/**
+ * Upload content that is available without opening it first
+ */
+export type StaticContent = Blob | ArrayBuffer | string;
+
+/**
+ * Upload content as a byte stream. Node.js readable streams are async
+ * iterables of Buffers and can be passed directly.
+ */
+export type StreamContent =
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/**
+ * Content of a file to upload.
+ *
+ * A factory is called whenever the content is read (hashing, each upload
+ * attempt, each part), so nothing is opened before it is needed. Streams
+ * passed directly can only be read once: they need a declared `size` and
+ * `hash`, and their uploads cannot be retried.
+ */
+export type UploadContent =
+  | StaticContent
+  | StreamContent
+  | (() => StaticContent | StreamContent | Promise<StaticContent | StreamContent>);
+
 /**
  * File to upload with its content
  */
 export interface FileToUpload {
   /** Relative path within the dataset */
   relpath: string;
-  /** File content as Blob, ArrayBuffer, or string */
-  content: Blob | ArrayBuffer | string;
+  /** File content, or a factory or stream producing it */
+  content: UploadContent;
   /** Optional MIME type */
   contentType?: string;
+  /**
+   * Size in bytes. Needed for streams passed directly and whenever `hash`
+   * is given; otherwise determined while hashing.
+   */
+  size?: number;
+  /** MD5 hex digest of the content; skips hashing the file */
+  hash?: string;
+  /**
+   * Open bytes [start, end) of the content. Used for parts of a multipart
+   * upload, so a stream factory does not have to be read from the start
+   * for every part.
+   */
+  openRange?: (
+    start: number,
+    end: number
+  ) => StaticContent | StreamContent | Promise<StaticContent | StreamContent>;
+}
+
+/**
+ * Kind of problem found in a file list
+ */
+export type FileValidationCode =
+  | "empty-relpath"
+  | "absolute-path"
+  | "parent-segment"
+  | "empty-segment"
+  | "dot-segment"
+  | "backslash"
+  | "non-nfc"
+  | "control-character"
+  | "duplicate-relpath"
+  | "case-conflict"
+  | "empty-file"
+  | "missing-metadata";
+
+/**
+ * A problem with one file of a file list
+ */
+export interface FileValidationProblem {
+  /** Kind of problem */
+  code: FileValidationCode;
+  /**
+   * "error" prevents the upload; "warning" is informational or was fixed
+   * by normalization
+   */
+  severity: "error" | "warning";
+  /** Index of the file in the list */
+  index: number;
+  /** Relative path as given */
+  relpath: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of validateFiles
+ */
+export interface FileValidationResult {
+  /** Whether the list has no errors */
+  valid: boolean;
+  /** Files with normalized relpaths, in the original order */
+  files: FileToUpload[];
+  /** Problems found, in file order */
+  problems: FileValidationProblem[];
 }
 
 /**
@@ -277,6 +719,189 @@ export class NotFoundError extends DServerError {
   }
 }
 
+/**
+ * Error thrown when a call needs a server plugin that is not installed, or
+ * whose version does not satisfy the required range
+ */
+export class PluginNotAvailableError extends NotFoundError {
+  constructor(
+    public readonly plugin: string,
+    message = `Server plugin ${plugin} is not installed`,
+    body?: unknown
+  ) {
+    super(message, body);
+    this.name = "PluginNotAvailableError";
+  }
+}
+
+/**
+ * Error thrown when storage rejects a signed URL.
+ *
+ * S3 and Azure answer requests with an expired signature with HTTP 403, so
+ * any 403 from a signed-URL transfer is reported with this error. Renewing
+ * the URL set (see DatasetSession) and retrying usually resolves it.
+ */
+export class SignedURLExpiredError extends DServerError {
+  constructor(message = "Signed URL expired or was rejected", body?: unknown) {
+    super(message, 403, "Forbidden", body);
+    this.name = "SignedURLExpiredError";
+  }
+}
+
+/**
+ * Error thrown when downloaded content does not match its manifest entry
+ */
+export class IntegrityError extends DServerError {
+  constructor(
+    message: string,
+    public readonly identifier: string,
+    public readonly expected: string | number,
+    public readonly actual: string | number
+  ) {
+    super(message);
+    this.name = "IntegrityError";
+  }
+}
+
+/**
+ * Item of a dataset upload that could not be uploaded
+ */
+export interface UploadItemFailure {
+  /** Relative path within the dataset */
+  relpath: string;
+  /** Error of the last attempt */
+  error: unknown;
+}
+
+/**
+ * Error thrown when some items of a dataset upload failed. The dataset is
+ * not registered; pass `journal` to `DServerClient.resumeUpload` to upload
+ * only the failed items against the same upload URLs. `journalError` is set
+ * if the journal store failed to save the journal during the upload.
+ */
+export class UploadIncompleteError extends DServerError {
+  constructor(
+    message: string,
+    public readonly succeeded: string[],
+    public readonly failed: UploadItemFailure[],
+    public readonly journal: UploadJournal,
+    public readonly journalError?: unknown
+  ) {
+    super(message);
+    this.name = "UploadIncompleteError";
+  }
+}
+
+/**
+ * Error thrown when a file list fails pre-flight validation
+ */
+export class FileValidationError extends DServerError {
+  constructor(
+    message: string,
+    public readonly problems: FileValidationProblem[]
+  ) {
+    super(message);
+    this.name = "FileValidationError";
+  }
+}
+
+/**
+ * Schema for dataset READMEs, a subset of JSON Schema. Keys whose value is
+ * empty (`null`) count as missing.
+ *
+ * @example
+ * ```typescript
+ * const schema: ReadmeSchema = {
+ *   required: ["description", "project", "owners"],
+ *   properties: {
+ *     description: { type: "string", minLength: 1 },
+ *     owners: {
+ *       type: "array",
+ *       minItems: 1,
+ *       items: { type: "object", required: ["name", "email"] },
+ *     },
+ *   },
+ * };
+ * ```
+ */
+export interface ReadmeSchema {
+  /** Keys that must be present */
+  required?: string[];
+  /** Schemas of individual keys */
+  properties?: Record<string, ReadmeFieldSchema>;
+}
+
+/**
+ * Schema of a README value
+ */
+export interface ReadmeFieldSchema extends ReadmeSchema {
+  type?: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  /** Allowed values */
+  enum?: unknown[];
+  /** Regular expression strings must match */
+  pattern?: string;
+  /** Minimum string length */
+  minLength?: number;
+  /** Minimum number of list entries */
+  minItems?: number;
+  /** Schema of list entries */
+  items?: ReadmeFieldSchema;
+}
+
+/**
+ * Kind of problem found in a README
+ */
+export type ReadmeValidationCode =
+  | "invalid-yaml"
+  | "missing"
+  | "type"
+  | "enum"
+  | "pattern"
+  | "min-length"
+  | "min-items";
+
+/**
+ * Problem found when validating a README against a schema
+ */
+export interface ReadmeValidationProblem {
+  /** Kind of problem */
+  code: ReadmeValidationCode;
+  /** Dotted path of the offending key, e.g. "owners.0.email" */
+  path: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of `validateReadme`
+ */
+export interface ReadmeValidationResult {
+  /** Whether the README matches the schema */
+  valid: boolean;
+  problems: ReadmeValidationProblem[];
+}
+
+/**
+ * Error thrown when a README does not match its schema
+ */
+export class ReadmeValidationError extends DServerError {
+  constructor(
+    message: string,
+    public readonly problems: ReadmeValidationProblem[]
+  ) {
+    super(message);
+    this.name = "ReadmeValidationError";
+  }
+}
+
+/**
+ * Options for `DServerClient.updateReadme`
+ */
+export interface ReadmeUpdateOptions extends RequestOptions {
+  /** Schema the edited README must match before it is saved */
+  schema?: ReadmeSchema;
+}
+
 // =========================================================================
 // REST API Types (for standard dserver endpoints)
 // =========================================================================
@@ -301,6 +926,16 @@ export interface DatasetEntry {
   uploaded_at?: number | null;
 }
 
+/**
+ * Dataset entry with its item count, size, tags and annotations
+ */
+export interface DatasetSummary extends DatasetEntry {
+  number_of_items: number;
+  size_in_bytes: number;
+  tags: string[];
+  annotations: Record<string, unknown>;
+}
+
 /**
  * Search query parameters
  */
@@ -320,9 +955,39 @@ export interface SearchQuery {
 export interface PaginationParams {
   page?: number;
   page_size?: number;
+  /** Comma-separated sort keys, "-" prefix for descending ("-frozen_at,name") */
   sort?: string;
 }
 
+/**
+ * Dataset field search results can be sorted by
+ */
+export type SearchSortKey =
+  | "uuid"
+  | "uri"
+  | "base_uri"
+  | "name"
+  | "creator_username"
+  | "created_at"
+  | "frozen_at"
+  | "number_of_items"
+  | "size_in_bytes"
+  | "uploaded_by"
+  | "uploaded_at";
+
+/**
+ * Sort direction
+ */
+export type SortDirection = "asc" | "desc";
+
+/**
+ * One key of a search's sort order
+ */
+export interface SearchSort {
+  key: SearchSortKey;
+  direction: SortDirection;
+}
+
 /**
  * Pagination info returned in headers
  */
@@ -333,6 +998,18 @@ export interface PaginationInfo {
   pages: number;
 }
 
+/**
+ * Options for iterating over all pages of a search
+ */
+export interface SearchIterationOptions extends RequestOptions {
+  /** Number of results requested per page; the server may cap it */
+  pageSize?: number;
+  /** Sort order, as in `PaginationParams.sort` */
+  sort?: string;
+  /** First page to fetch (default: 1) */
+  startPage?: number;
+}
+
 /**
  * Response with pagination
  */
@@ -355,6 +1032,46 @@ export interface ServerVersions {
   [key: string]: string | undefined;
 }
 
+/**
+ * Optional server feature, each provided by a plugin
+ */
+export type ServerFeature =
+  | "search"
+  | "retrieve"
+  | "direct-mongo"
+  | "signed-urls"
+  | "dependency-graph"
+  | "notifications";
+
+/**
+ * Availability of a server feature
+ */
+export interface ServerFeatureInfo {
+  /** Plugin providing the feature, as named in `ServerVersions` */
+  plugin: string;
+  /** Whether the plugin is installed */
+  available: boolean;
+  /** Installed plugin version */
+  version?: string;
+}
+
+/**
+ * Features and plugin versions of a server
+ */
+export interface ServerCapabilities {
+  /** Versions as reported by the server */
+  versions: ServerVersions;
+  features: Record<ServerFeature, ServerFeatureInfo>;
+}
+
+/**
+ * Options for fetching server capabilities
+ */
+export interface CapabilitiesOptions extends RequestOptions {
+  /** Fetch the versions again instead of using the cached capabilities */
+  refresh?: boolean;
+}
+
 /**
  * Tags response
  */
@@ -454,6 +1171,37 @@ export interface BaseURIPermissionsRequest {
   users_with_register_permissions?: string[];
 }
 
+// =========================================================================
+// Direct Mongo Plugin Types
+// =========================================================================
+
+/**
+ * MongoDB filter document. README content and annotations are stored as
+ * documents, so they can be queried by path, e.g.
+ * `{ "readme.project": "battery-aging", "annotations.instrument": "xrd-2" }`.
+ */
+export type MongoFilter = Record<string, unknown>;
+
+/**
+ * Fields to include (1) or exclude (0) from each result
+ */
+export type MongoProjection = Record<string, 0 | 1 | boolean>;
+
+/**
+ * MongoDB aggregation pipeline stage, e.g. `{ $group: {...} }`
+ */
+export type MongoPipelineStage = Record<string, unknown>;
+
+/**
+ * Request body of a direct Mongo query
+ */
+export interface MongoQueryRequest {
+  /** Filter the datasets must match */
+  query: MongoFilter;
+  /** Fields to return; without it, whole dataset entries are returned */
+  projection?: MongoProjection;
+}
+
 // =========================================================================
 // Dependency Graph Plugin Types
 // =========================================================================
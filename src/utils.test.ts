@@ -0,0 +1,227 @@
+import { createHash } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DServerError } from "./types";
+import {
+  collectAll,
+  createHasher,
+  delay,
+  parallelLimit,
+  parseRetryAfter,
+  RangeHasher,
+} from "./utils";
+
+const md5 = (content: string) =>
+  createHash("md5").update(content).digest("hex");
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("parseRetryAfter", () => {
+  it("reads a delay in seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120000);
+    expect(parseRetryAfter("0.5")).toBe(500);
+  });
+
+  it("reads an HTTP date", () => {
+    vi.useFakeTimers({ now: Date.parse("2024-05-01T12:00:00Z") });
+
+    expect(parseRetryAfter("Wed, 01 May 2024 12:00:30 GMT")).toBe(30000);
+    expect(parseRetryAfter("Wed, 01 May 2024 11:00:00 GMT")).toBe(0);
+  });
+
+  it.each([null, undefined, "", "  ", "soon"])("ignores %j", (headerValue) => {
+    expect(parseRetryAfter(headerValue)).toBeUndefined();
+  });
+});
+
+describe("delay", () => {
+  it("resolves after the delay", async () => {
+    vi.useFakeTimers();
+    const resolved = vi.fn();
+    delay(1000).then(resolved);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(resolved).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it("rejects with the abort reason", async () => {
+    const controller = new AbortController();
+    const waiting = delay(60000, controller.signal);
+    controller.abort(new Error("stopped"));
+
+    await expect(waiting).rejects.toThrow("stopped");
+    await expect(delay(1, controller.signal)).rejects.toThrow("stopped");
+  });
+});
+
+describe("createHasher", () => {
+  it("hashes chunks incrementally with MD5", () => {
+    const bytes = new TextEncoder().encode("0123456789");
+    const hasher = createHasher("md5sum_hexdigest")!;
+    // Views into a larger buffer are hashed by their own bytes only
+    hasher.update(bytes.subarray(0, 3));
+    hasher.update(bytes.subarray(3));
+
+    expect(hasher.digest()).toBe(md5("0123456789"));
+  });
+
+  it("forks a hasher in its current state", () => {
+    const bytes = new TextEncoder().encode("0123456789");
+    const hasher = createHasher("md5sum_hexdigest")!;
+    hasher.update(bytes.subarray(0, 4));
+    const fork = hasher.fork();
+    fork.update(bytes.subarray(4));
+    hasher.update(bytes.subarray(4, 6));
+
+    expect(fork.digest()).toBe(md5("0123456789"));
+    expect(hasher.digest()).toBe(md5("012345"));
+  });
+
+  it("does not support other hash functions", () => {
+    expect(createHasher("sha256sum_hexdigest")).toBeUndefined();
+  });
+});
+
+describe("parallelLimit", () => {
+  it("runs at most `limit` tasks at a time and keeps the order", async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await parallelLimit([5, 1, 3, 2, 4], 2, async (ms) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return ms * 10;
+    });
+
+    expect(results).toEqual([50, 10, 30, 20, 40]);
+    expect(peak).toBe(2);
+  });
+
+  it("starts no further tasks after a failure", async () => {
+    const started: number[] = [];
+    const finished: number[] = [];
+    const run = parallelLimit([1, 2, 3, 4, 5], 2, async (n) => {
+      started.push(n);
+      await new Promise((resolve) => setTimeout(resolve, n === 1 ? 1 : 20));
+      if (n === 1) throw new Error("task 1 failed");
+      finished.push(n);
+    });
+
+    await expect(run).rejects.toThrow("task 1 failed");
+    // The task running alongside the failed one is still awaited
+    expect(started).toEqual([1, 2]);
+    expect(finished).toEqual([2]);
+  });
+});
+
+describe("RangeHasher", () => {
+  const content = "0123456789";
+
+  /**
+   * Read range [start, end) of the content through the hasher byte by
+   * byte, stopping after `limit` bytes like an interrupted upload
+   */
+  async function read(
+    hasher: RangeHasher,
+    start: number,
+    end: number,
+    limit = end - start
+  ): Promise<void> {
+    const bytes = new TextEncoder().encode(content.slice(start, end));
+    let position = 0;
+    const source = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (position < bytes.length) {
+          controller.enqueue(bytes.slice(position, ++position));
+        } else {
+          controller.close();
+        }
+      },
+    });
+    const stream = hasher.track(source, start, end);
+    const reader = stream.getReader();
+    let received = 0;
+    while (received < limit) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.length;
+    }
+    if (received < end - start) {
+      await reader.cancel();
+    } else {
+      await reader.read();
+    }
+  }
+
+  const rangeHasher = () =>
+    new RangeHasher(() => createHasher("md5sum_hexdigest")!);
+
+  it("hashes ranges read in order", async () => {
+    const hasher = rangeHasher();
+    await read(hasher, 0, 4);
+    await read(hasher, 4, 8);
+    await read(hasher, 8, 10);
+
+    expect(hasher.digest(10)).toBe(md5(content));
+  });
+
+  it("replaces the bytes of a range that is read again", async () => {
+    const hasher = rangeHasher();
+    await read(hasher, 0, 4);
+    await read(hasher, 4, 8, 2);
+    await read(hasher, 4, 8);
+    await read(hasher, 4, 8);
+    await read(hasher, 8, 10);
+
+    expect(hasher.digest(10)).toBe(md5(content));
+  });
+
+  it("starts over when the first range is read again", async () => {
+    const hasher = rangeHasher();
+    await read(hasher, 0, 4);
+    await read(hasher, 4, 8);
+    await read(hasher, 0, 4);
+    await read(hasher, 4, 8);
+    await read(hasher, 8, 10);
+
+    expect(hasher.digest(10)).toBe(md5(content));
+  });
+
+  it("has no hash until every byte was read in order", async () => {
+    const skipped = rangeHasher();
+    await read(skipped, 0, 4);
+    await read(skipped, 8, 10);
+    expect(skipped.digest(10)).toBeUndefined();
+
+    const interrupted = rangeHasher();
+    await read(interrupted, 0, 4);
+    await read(interrupted, 4, 8);
+    await read(interrupted, 8, 10, 1);
+    expect(interrupted.digest(10)).toBeUndefined();
+  });
+});
+
+describe("collectAll", () => {
+  async function* count(to: number) {
+    for (let i = 1; i <= to; i++) {
+      yield i;
+    }
+  }
+
+  it("collects all items", async () => {
+    expect(await collectAll(count(3))).toEqual([1, 2, 3]);
+    expect(await collectAll(count(3), 3)).toEqual([1, 2, 3]);
+  });
+
+  it("fails at the first item over the limit", async () => {
+    const items = count(10);
+
+    await expect(collectAll(items, 3)).rejects.toThrow(DServerError);
+    // The iterator is closed without reading the remaining items
+    expect(await items.next()).toEqual({ done: true, value: undefined });
+  });
+});
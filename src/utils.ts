@@ -2,7 +2,9 @@
  * Utility functions for dserver client
  */
 
-import type { PaginationInfo } from "./types";
+import SparkMD5 from "spark-md5";
+import { DServerError, IntegrityError } from "./types";
+import type { ManifestItem, PaginationInfo, ProgressCallback } from "./types";
 
 /**
  * Parse an X-Pagination response header into a PaginationInfo.
@@ -147,9 +149,46 @@ export function formatBytes(bytes: number, decimals = 2): string {
 
 /**
  * Create a delay promise (useful for rate limiting)
+ *
+ * Rejects with the signal's abort reason if the signal fires first.
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into
+ * milliseconds. Returns undefined if the header is missing or malformed.
+ */
+export function parseRetryAfter(
+  headerValue: string | null | undefined
+): number | undefined {
+  if (!headerValue || !headerValue.trim()) {
+    return undefined;
+  }
+  const seconds = Number(headerValue);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(headerValue);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
 }
 
 /**
@@ -199,6 +238,53 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+/**
+ * Convert a glob pattern to a regular expression matching whole relpaths.
+ *
+ * Supports `*` and `?` (not matching `/`), `**` (any number of path
+ * segments), character classes (`[abc]`, `[!abc]`) and alternatives
+ * (`{a,b}`).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${globSource(pattern)}$`);
+}
+
+function globSource(pattern: string): string {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*" && pattern[i + 1] === "*") {
+      i++;
+      if (pattern[i + 1] === "/") {
+        // "**/" also matches no directory at all
+        i++;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (c === "[" && pattern.indexOf("]", i + 2) > 0) {
+      const end = pattern.indexOf("]", i + 2);
+      const members = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += members.startsWith("!")
+        ? `[^/${members.slice(1)}]`
+        : `[${members}]`;
+      i = end;
+    } else if (c === "{" && pattern.indexOf("}", i) > 0) {
+      const end = pattern.indexOf("}", i);
+      const alternatives = pattern.slice(i + 1, end).split(",");
+      source += `(?:${alternatives.map(globSource).join("|")})`;
+      i = end;
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
 /**
  * Chunk an array into smaller arrays
  */
@@ -211,7 +297,8 @@ export function chunk<T>(array: T[], size: number): T[][] {
 }
 
 /**
- * Run promises with concurrency limit
+ * Run promises with concurrency limit. Once a task fails, no further tasks
+ * are started; the running ones are awaited and the first failure is thrown.
  */
 export async function parallelLimit<T, R>(
   items: T[],
@@ -220,8 +307,12 @@ export async function parallelLimit<T, R>(
 ): Promise<R[]> {
   const results: Promise<R>[] = [];
   const executing = new Set<Promise<void>>();
+  let failed = false;
 
   for (const item of items) {
+    if (failed) {
+      break;
+    }
     const p = Promise.resolve().then(() => fn(item));
     results.push(p);
 
@@ -229,7 +320,9 @@ export async function parallelLimit<T, R>(
     // surface as an unhandled rejection while later tasks are still queued.
     const e = p.then(
       () => undefined,
-      () => undefined
+      () => {
+        failed = true;
+      }
     ).then(() => {
       executing.delete(e);
     });
@@ -248,3 +341,352 @@ export async function parallelLimit<T, R>(
   }
   return settled.map((s) => (s as PromiseFulfilledResult<R>).value);
 }
+
+/**
+ * Collect the items of an async iterable into an array, failing instead of
+ * exhausting memory when there are more than `maxItems`.
+ *
+ * @param items - Items to collect, e.g. from `client.searchAllDatasets()`
+ * @param maxItems - Maximum number of items (default: 10000)
+ * @returns All items
+ * @throws DServerError if there are more than `maxItems` items
+ *
+ * @example
+ * ```typescript
+ * const datasets = await collectAll(
+ *   client.searchAllDatasets({ tags: ["raw"] }),
+ *   50000
+ * );
+ * ```
+ */
+export async function collectAll<T>(
+  items: AsyncIterable<T>,
+  maxItems = 10000
+): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) {
+    if (result.length >= maxItems) {
+      throw new DServerError(
+        `More than ${maxItems} items; narrow the query or raise the limit`
+      );
+    }
+    result.push(item);
+  }
+  return result;
+}
+
+/**
+ * Pass a byte stream through unchanged while reporting progress
+ */
+export function trackProgress(
+  stream: ReadableStream<Uint8Array>,
+  total: number,
+  onProgress: ProgressCallback,
+  item?: string
+): ReadableStream<Uint8Array> {
+  let loaded = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        loaded += chunk.length;
+        onProgress(loaded, total, item);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+/**
+ * Read a byte stream into an ArrayBuffer. When the length is known up front
+ * the buffer is allocated once and chunks are copied straight into it.
+ */
+export async function readStream(
+  stream: ReadableStream<Uint8Array>,
+  expectedLength = 0
+): Promise<ArrayBuffer> {
+  let buffer = new Uint8Array(expectedLength);
+  let position = 0;
+  const reader = stream.getReader();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (position + value.length > buffer.length) {
+      // Length unknown or understated: grow geometrically.
+      const grown = new Uint8Array(
+        Math.max(buffer.length * 2, position + value.length)
+      );
+      grown.set(buffer.subarray(0, position));
+      buffer = grown;
+    }
+    buffer.set(value, position);
+    position += value.length;
+  }
+
+  return position === buffer.length
+    ? buffer.buffer
+    : buffer.buffer.slice(0, position);
+}
+
+/**
+ * Incrementally computed content hash
+ */
+export interface IncrementalHasher {
+  update(chunk: Uint8Array): void;
+  digest(): string;
+  /** Copy of the hasher in its current state, updated independently */
+  fork(): IncrementalHasher;
+}
+
+/**
+ * Create an incremental hasher for a dtool manifest hash function.
+ * Returns undefined for hash functions that are not supported.
+ */
+export function createHasher(
+  hashFunction: string
+): IncrementalHasher | undefined {
+  if (hashFunction !== "md5sum_hexdigest") {
+    return undefined;
+  }
+  // WebCrypto has neither MD5 nor incremental digests, so use spark-md5.
+  return md5Hasher(new SparkMD5.ArrayBuffer());
+}
+
+function md5Hasher(spark: SparkMD5.ArrayBuffer): IncrementalHasher {
+  return {
+    update(chunk) {
+      const whole =
+        chunk.byteOffset === 0 && chunk.byteLength === chunk.buffer.byteLength;
+      spark.append(
+        (whole
+          ? chunk.buffer
+          : chunk.buffer.slice(
+              chunk.byteOffset,
+              chunk.byteOffset + chunk.byteLength
+            )) as ArrayBuffer
+      );
+    },
+    digest() {
+      return spark.end();
+    },
+    fork() {
+      const copy = new SparkMD5.ArrayBuffer();
+      copy.setState(spark.getState());
+      return md5Hasher(copy);
+    },
+  };
+}
+
+/**
+ * Hashes an item from byte ranges that are read in order, like the parts
+ * of a multipart upload. A range that is read again, for a retried part or
+ * a retried item, replaces the bytes hashed for it before; a range counts
+ * once it has been read to its end.
+ */
+export class RangeHasher {
+  private hashed: { end: number; hasher: IncrementalHasher };
+  private lastRange?: { end: number; hasher: IncrementalHasher };
+
+  constructor(private readonly newHasher: () => IncrementalHasher) {
+    this.hashed = { end: 0, hasher: newHasher() };
+  }
+
+  /**
+   * Pass the stream of range [start, end) through, hashing it if it
+   * continues the bytes hashed so far
+   */
+  track(
+    stream: ReadableStream<Uint8Array>,
+    start: number,
+    end: number
+  ): ReadableStream<Uint8Array> {
+    if (start === 0) {
+      this.hashed = { end: 0, hasher: this.newHasher() };
+      this.lastRange = undefined;
+    } else if (this.lastRange && start >= this.lastRange.end) {
+      this.hashed = this.lastRange;
+      this.lastRange = undefined;
+    }
+    if (start !== this.hashed.end) {
+      return stream;
+    }
+
+    const hasher = this.hashed.hasher.fork();
+    let size = 0;
+    return stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+          size += chunk.length;
+          hasher.update(chunk);
+          controller.enqueue(chunk);
+        },
+        flush: () => {
+          if (size === end - start) {
+            this.lastRange = { end, hasher };
+          }
+        },
+      })
+    );
+  }
+
+  /**
+   * Hash of the item, or undefined if its `size` bytes have not all been
+   * read in order
+   */
+  digest(size: number): string | undefined {
+    const hashed = this.lastRange ?? this.hashed;
+    return hashed.end === size ? hashed.hasher.digest() : undefined;
+  }
+}
+
+/**
+ * Pass a byte stream through unchanged and error it with an IntegrityError
+ * if its size or hash differs from the manifest entry
+ */
+export function verifyStream(
+  stream: ReadableStream<Uint8Array>,
+  identifier: string,
+  expected: ManifestItem,
+  hasher: IncrementalHasher
+): ReadableStream<Uint8Array> {
+  let size = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.length;
+        hasher.update(chunk);
+        controller.enqueue(chunk);
+      },
+      flush() {
+        if (size !== expected.size_in_bytes) {
+          throw new IntegrityError(
+            `Size mismatch for item ${expected.relpath}: expected ` +
+              `${expected.size_in_bytes} bytes, got ${size}`,
+            identifier,
+            expected.size_in_bytes,
+            size
+          );
+        }
+        const hash = hasher.digest();
+        if (hash !== expected.hash) {
+          throw new IntegrityError(
+            `Hash mismatch for item ${expected.relpath}: expected ` +
+              `${expected.hash}, got ${hash}`,
+            identifier,
+            expected.hash,
+            hash
+          );
+        }
+      },
+    })
+  );
+}
+
+let requestStreamsSupported: boolean | undefined;
+
+/**
+ * Whether the code runs in Node.js rather than a browser, also when a
+ * bundler provides a `process` polyfill
+ */
+function isNodeRuntime(): boolean {
+  return (
+    typeof window === "undefined" &&
+    typeof process !== "undefined" &&
+    typeof process.versions?.node === "string"
+  );
+}
+
+/**
+ * Whether upload bodies can be sent as streams: fetch must accept a
+ * ReadableStream as request body (Node.js 18+), detected once by the
+ * `duplex` option being read and the stream not being serialized to text.
+ *
+ * Browsers are excluded even where fetch streams request bodies: they drop
+ * the Content-Length header signed URLs require, and Chromium streams only
+ * over HTTP/2, which storage endpoints often do not offer.
+ */
+export function supportsRequestStreams(): boolean {
+  if (requestStreamsSupported === undefined) {
+    if (!isNodeRuntime()) {
+      requestStreamsSupported = false;
+      return false;
+    }
+    let duplexAccessed = false;
+    try {
+      const hasContentType = new Request("http://localhost", {
+        method: "POST",
+        body: new ReadableStream(),
+        get duplex() {
+          duplexAccessed = true;
+          return "half";
+        },
+      } as RequestInit).headers.has("Content-Type");
+      requestStreamsSupported = duplexAccessed && !hasContentType;
+    } catch {
+      requestStreamsSupported = false;
+    }
+  }
+  return requestStreamsSupported;
+}
+
+/**
+ * Send a request with XMLHttpRequest, which reports upload progress in
+ * browsers, and return the result as a fetch Response
+ *
+ * @param url - Request URL
+ * @param init - Request options; the body must not be a stream
+ * @param onUploadProgress - Called with the number of body bytes sent
+ */
+export function xhrFetch(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (loaded: number) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const signal = init.signal ?? undefined;
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? "GET", url);
+    xhr.responseType = "blob";
+    new Headers(init.headers).forEach((value, key) => {
+      xhr.setRequestHeader(key, value);
+    });
+    xhr.upload.onprogress = (event) => onUploadProgress(event.loaded);
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const done = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.onload = () => {
+      done();
+      const headers = new Headers();
+      for (const line of xhr.getAllResponseHeaders().trim().split(/\r?\n/)) {
+        const index = line.indexOf(":");
+        if (index > 0) {
+          headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+        }
+      }
+      const nullBody = [101, 204, 205, 304].includes(xhr.status);
+      resolve(
+        new Response(nullBody ? null : xhr.response, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers,
+        })
+      );
+    };
+    // Network failures surface as TypeError, like they do with fetch
+    xhr.onerror = () => {
+      done();
+      reject(new TypeError("Network request failed"));
+    };
+    xhr.onabort = () => {
+      done();
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import {
+  FileToUpload,
+  FileValidationCode,
+  FileValidationError,
+  FileValidationProblem,
+} from "./types";
+import { requireValidFiles, validateFiles } from "./validation";
+
+const file = (relpath: string, content: FileToUpload["content"] = "x") => ({
+  relpath,
+  content,
+});
+
+const codes = (problems: FileValidationProblem[]) =>
+  problems.map(({ code, severity }) => [code, severity]);
+
+describe("validateFiles", () => {
+  it("accepts clean relpaths unchanged", () => {
+    const files = [file("a.txt"), file("data/b.csv")];
+    const result = validateFiles(files);
+
+    expect(result).toEqual({ valid: true, files, problems: [] });
+    expect(result.files[0]).toBe(files[0]);
+  });
+
+  it.each<[string, string, FileValidationCode[]]>([
+    ["data\\raw\\a.txt", "data/raw/a.txt", ["backslash"]],
+    ["cafe\u0301.txt", "caf\u00e9.txt", ["non-nfc"]],
+    ["./data/./a.txt", "data/a.txt", ["dot-segment"]],
+    ["data//a.txt", "data/a.txt", ["empty-segment"]],
+    ["data/raw/", "data/raw", ["empty-segment"]],
+    [
+      ".\\data\\\\a.txt",
+      "data/a.txt",
+      ["backslash", "dot-segment", "empty-segment"],
+    ],
+  ])("normalizes %j to %j", (relpath, normalized, expected) => {
+    const result = validateFiles([file(relpath)]);
+
+    expect(result.valid).toBe(true);
+    expect(result.files.map(({ relpath }) => relpath)).toEqual([normalized]);
+    expect(result.problems.map(({ code }) => code)).toEqual(expected);
+    expect(result.problems[0]).toMatchObject({ index: 0, relpath });
+  });
+
+  it.each<[string, FileValidationCode]>([
+    ["a\u0000b.txt", "control-character"],
+    ["tab\there.txt", "control-character"],
+    ["/etc/passwd", "absolute-path"],
+    ["C:/data/a.txt", "absolute-path"],
+    ["C:\\data\\a.txt", "absolute-path"],
+    ["../a.txt", "parent-segment"],
+    ["data/../../a.txt", "parent-segment"],
+    ["", "empty-relpath"],
+    ["./", "empty-relpath"],
+  ])("rejects %j as %s", (relpath, code) => {
+    const result = validateFiles([file(relpath)]);
+
+    expect(result.valid).toBe(false);
+    expect(result.problems).toContainEqual(
+      expect.objectContaining({ code, severity: "error", index: 0 })
+    );
+  });
+
+  it("rejects relpaths that are the same after normalization", () => {
+    const result = validateFiles([file("data/a.txt"), file("data\\a.txt")]);
+
+    expect(result.valid).toBe(false);
+    expect(codes(result.problems)).toEqual([
+      ["backslash", "warning"],
+      ["duplicate-relpath", "error"],
+    ]);
+    expect(result.problems[1]).toMatchObject({
+      index: 1,
+      message: "Same path as file 0 (data/a.txt)",
+    });
+  });
+
+  it("warns about relpaths that differ only in case", () => {
+    const result = validateFiles([file("README.md"), file("readme.md")]);
+
+    expect(result.valid).toBe(true);
+    expect(codes(result.problems)).toEqual([["case-conflict", "warning"]]);
+    expect(result.problems[0].index).toBe(1);
+  });
+
+  it("warns about empty files", () => {
+    const result = validateFiles([
+      file("empty.txt", ""),
+      file("empty.bin", new Blob([])),
+      { ...file("declared.bin", () => "x"), size: 0 },
+      file("unknown.bin", () => ""),
+    ]);
+
+    expect(result.valid).toBe(true);
+    expect(result.problems.map(({ index, code }) => [index, code])).toEqual([
+      [0, "empty-file"],
+      [1, "empty-file"],
+      [2, "empty-file"],
+    ]);
+  });
+
+  it("needs the size and hash of streams and the size of declared hashes", () => {
+    const stream = () => new ReadableStream<Uint8Array>();
+    const result = validateFiles([
+      file("stream.bin", stream()),
+      { ...file("sized.bin", stream()), size: 3 },
+      { ...file("complete.bin", stream()), size: 3, hash: "abc" },
+      { ...file("factory.bin", () => "x"), hash: "abc" },
+      { ...file("static.txt", "x"), hash: "abc" },
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(result.problems.map(({ index, code }) => [index, code])).toEqual([
+      [0, "missing-metadata"],
+      [1, "missing-metadata"],
+      [3, "missing-metadata"],
+    ]);
+  });
+});
+
+describe("requireValidFiles", () => {
+  it("returns the normalized files", () => {
+    expect(requireValidFiles([file("data\\a.txt")])).toEqual([
+      file("data/a.txt"),
+    ]);
+  });
+
+  it("throws a FileValidationError listing the errors", () => {
+    const files = [file("ok.txt"), file("../a"), file("/b")];
+
+    let error: unknown;
+    try {
+      requireValidFiles(files);
+    } catch (thrown) {
+      error = thrown;
+    }
+
+    expect(error).toBeInstanceOf(FileValidationError);
+    expect((error as FileValidationError).message).toBe(
+      "2 invalid file(s): ../a: Path must not contain '..' segments; " +
+        "/b: Path must be relative"
+    );
+    expect(codes((error as FileValidationError).problems)).toEqual([
+      ["parent-segment", "error"],
+      ["absolute-path", "error"],
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Pre-flight validation and normalization of files to upload
+ */
+
+import { getKnownSize, isOneShotContent } from "./content";
+import {
+  FileToUpload,
+  FileValidationError,
+  FileValidationCode,
+  FileValidationProblem,
+  FileValidationResult,
+} from "./types";
+
+/**
+ * Validate and normalize a list of files before uploading it.
+ *
+ * Relpaths are normalized to forward slashes and Unicode NFC, and `.` and
+ * empty segments are dropped; each such fix is reported as a warning.
+ * Absolute paths, `..` segments, empty relpaths, control characters and
+ * duplicate relpaths (which would get the same item identifier) are errors.
+ * Streams passed directly without a declared size and hash are errors too.
+ * Empty files and relpaths that differ only in case are warnings.
+ *
+ * @param files - Files to upload
+ * @returns Normalized files and the problems found
+ *
+ * @example
+ * ```typescript
+ * const { valid, problems } = validateFiles(files);
+ * for (const problem of problems) {
+ *   console.log(problem.severity, problem.relpath, problem.message);
+ * }
+ * ```
+ */
+export function validateFiles(files: FileToUpload[]): FileValidationResult {
+  const problems: FileValidationProblem[] = [];
+  const normalized: FileToUpload[] = [];
+  const seen = new Map<string, number>();
+  const seenLowerCase = new Map<string, number>();
+
+  files.forEach((file, index) => {
+    const relpath = file.relpath;
+    const report = (
+      code: FileValidationCode,
+      severity: FileValidationProblem["severity"],
+      message: string
+    ) => problems.push({ code, severity, index, relpath, message });
+
+    let path = relpath;
+    if (path.includes("\\")) {
+      report("backslash", "warning", "Backslashes were replaced by slashes");
+      path = path.replace(/\\/g, "/");
+    }
+    if (path.normalize("NFC") !== path) {
+      report("non-nfc", "warning", "Path was normalized to Unicode NFC");
+      path = path.normalize("NFC");
+    }
+    if (/\p{Cc}/u.test(path)) {
+      report("control-character", "error", "Path contains control characters");
+    }
+    if (path.startsWith("/") || /^[A-Za-z]:(\/|$)/.test(path)) {
+      report("absolute-path", "error", "Path must be relative");
+    }
+
+    const segments = path.split("/");
+    if (segments.includes("..")) {
+      report("parent-segment", "error", "Path must not contain '..' segments");
+    }
+    if (segments.includes(".")) {
+      report("dot-segment", "warning", "'.' segments were removed");
+    }
+    if (path.includes("//") || (path.length > 1 && path.endsWith("/"))) {
+      report("empty-segment", "warning", "Empty path segments were removed");
+    }
+    path = segments.filter((s) => s !== "" && s !== ".").join("/");
+    if (!path) {
+      report("empty-relpath", "error", "Path is empty");
+    }
+
+    if (path) {
+      const duplicate = seen.get(path);
+      if (duplicate !== undefined) {
+        report(
+          "duplicate-relpath",
+          "error",
+          `Same path as file ${duplicate} (${files[duplicate].relpath})`
+        );
+      } else {
+        seen.set(path, index);
+        const lower = path.toLowerCase();
+        const conflict = seenLowerCase.get(lower);
+        if (conflict !== undefined) {
+          report(
+            "case-conflict",
+            "warning",
+            `Differs only in case from file ${conflict} ` +
+              `(${files[conflict].relpath}); the files collide on ` +
+              `case-insensitive file systems`
+          );
+        } else {
+          seenLowerCase.set(lower, index);
+        }
+      }
+    }
+
+    if (getKnownSize(file) === 0) {
+      report("empty-file", "warning", "File is empty");
+    }
+    if (
+      isOneShotContent(file.content) &&
+      (file.size === undefined || file.hash === undefined)
+    ) {
+      report(
+        "missing-metadata",
+        "error",
+        "A stream can only be read once; declare its size and hash or " +
+          "pass a factory"
+      );
+    } else if (file.hash !== undefined && getKnownSize(file) === undefined) {
+      report("missing-metadata", "error", "A declared hash needs a size");
+    }
+
+    normalized.push(path === relpath ? file : { ...file, relpath: path });
+  });
+
+  return {
+    valid: !problems.some((problem) => problem.severity === "error"),
+    files: normalized,
+    problems,
+  };
+}
+
+/**
+ * Validate a file list and return it normalized, or throw a
+ * FileValidationError listing its errors
+ */
+export function requireValidFiles(files: FileToUpload[]): FileToUpload[] {
+  const { valid, files: normalized, problems } = validateFiles(files);
+  if (!valid) {
+    const errors = problems.filter((problem) => problem.severity === "error");
+    throw new FileValidationError(
+      `${errors.length} invalid file(s): ` +
+        errors
+          .slice(0, 5)
+          .map((problem) => `${problem.relpath}: ${problem.message}`)
+          .join("; ") +
+        (errors.length > 5 ? "; ..." : ""),
+      problems
+    );
+  }
+  return normalized;
+}
@@ -7,6 +7,7 @@
 
 import { ref, computed, Ref, shallowRef } from "vue";
 import { DServerClient } from "./client";
+import { DatasetSession } from "./session";
 import {
   DServerClientConfig,
   DatasetSignedURLsResponse,
@@ -15,9 +16,12 @@ import {
   UploadCompleteResponse,
   FileToUpload,
   UploadOptions,
+  UploadProgressEvent,
   DownloadOptions,
   DServerError,
+  FileValidationProblem,
 } from "./types";
+import { validateFiles } from "./validation";
 
 /**
  * Composable for managing a DServerClient instance
@@ -33,10 +37,14 @@ export function useDServerClient(config: Ref<DServerClientConfig> | DServerClien
 
 /**
  * Composable for downloading dataset items
+ *
+ * Transfers go through a DatasetSession, so signed URLs are renewed
+ * automatically while the dataset stays open.
  */
 export function useDatasetDownload(client: Ref<DServerClient>) {
   const loading = ref(false);
   const error = shallowRef<Error | null>(null);
+  const session = shallowRef<DatasetSession | null>(null);
   const urls = shallowRef<DatasetSignedURLsResponse | null>(null);
   const manifest = shallowRef<Manifest | null>(null);
   const adminMetadata = shallowRef<AdminMetadata | null>(null);
@@ -55,7 +63,8 @@ export function useDatasetDownload(client: Ref<DServerClient>) {
     error.value = null;
 
     try {
-      urls.value = await client.value.getDatasetSignedUrls(uri);
+      session.value = client.value.openDataset(uri);
+      urls.value = await session.value.getUrls();
     } catch (e) {
       error.value = e as Error;
       throw e;
@@ -64,6 +73,20 @@ export function useDatasetDownload(client: Ref<DServerClient>) {
     }
   }
 
+  function requireSession(): DatasetSession {
+    if (!session.value) {
+      throw new Error("No dataset loaded. Call loadDataset first.");
+    }
+    return session.value;
+  }
+
+  /**
+   * Expose renewed URLs after a transfer
+   */
+  function syncUrls(): void {
+    urls.value = session.value?.urls ?? null;
+  }
+
   /**
    * Load the manifest for the current dataset
    */
@@ -76,7 +99,8 @@ export function useDatasetDownload(client: Ref<DServerClient>) {
     error.value = null;
 
     try {
-      manifest.value = await client.value.downloadManifest(urls.value);
+      manifest.value = await requireSession().downloadManifest();
+      syncUrls();
       return manifest.value;
     } catch (e) {
       error.value = e as Error;
@@ -98,7 +122,8 @@ export function useDatasetDownload(client: Ref<DServerClient>) {
     error.value = null;
 
     try {
-      adminMetadata.value = await client.value.downloadAdminMetadata(urls.value);
+      adminMetadata.value = await requireSession().downloadAdminMetadata();
+      syncUrls();
       return adminMetadata.value;
     } catch (e) {
       error.value = e as Error;
@@ -120,7 +145,8 @@ export function useDatasetDownload(client: Ref<DServerClient>) {
     error.value = null;
 
     try {
-      readme.value = await client.value.downloadReadme(urls.value);
+      readme.value = await requireSession().downloadReadme();
+      syncUrls();
       return readme.value;
     } catch (e) {
       error.value = e as Error;
@@ -146,13 +172,14 @@ export function useDatasetDownload(client: Ref<DServerClient>) {
     progress.value = { loaded: 0, total: 0, item: identifier };
 
     try {
-      const result = await client.value.downloadItem(urls.value, identifier, {
+      const result = await requireSession().downloadItem(identifier, {
         ...options,
         onProgress: (loaded, total, item) => {
           progress.value = { loaded, total, item };
           options?.onProgress?.(loaded, total, item);
         },
       });
+      syncUrls();
       return result;
     } catch (e) {
       error.value = e as Error;
@@ -217,6 +244,7 @@ export function useDatasetDownload(client: Ref<DServerClient>) {
     // State
     loading,
     error,
+    session,
     urls,
     manifest,
     adminMetadata,
@@ -252,6 +280,10 @@ export function useDatasetUpload(client: Ref<DServerClient>) {
     total: 0,
     phase: "preparing",
   });
+  // Structured progress with item states, throughput and ETA
+  const uploadProgress = shallowRef<UploadProgressEvent | null>(null);
+  // Problems found when validating the files of the last upload
+  const validationProblems = shallowRef<FileValidationProblem[]>([]);
 
   const result = shallowRef<UploadCompleteResponse | null>(null);
 
@@ -268,24 +300,27 @@ export function useDatasetUpload(client: Ref<DServerClient>) {
     error.value = null;
     result.value = null;
     progress.value = { uploaded: 0, total: 0, phase: "preparing" };
+    uploadProgress.value = null;
+    validationProblems.value = validateFiles(files).problems;
 
     try {
-      progress.value.phase = "uploading";
-
       const uploadResult = await client.value.createDataset(
         baseUri,
         name,
         files,
         {
           ...options,
-          onProgress: (uploaded, total, currentFile) => {
-            progress.value = {
-              uploaded,
-              total,
-              currentFile,
-              phase: "uploading",
-            };
-            options?.onProgress?.(uploaded, total, currentFile);
+          onUploadProgress: (event) => {
+            uploadProgress.value = event;
+            if (event.phase !== "hashing" && event.phase !== "complete") {
+              progress.value = {
+                uploaded: event.loaded,
+                total: event.total,
+                currentFile: event.item,
+                phase: event.phase === "finalizing" ? "finalizing" : "uploading",
+              };
+            }
+            options?.onUploadProgress?.(event);
           },
         }
       );
@@ -407,6 +442,8 @@ export function useDatasetUpload(client: Ref<DServerClient>) {
     error,
     progress,
     progressPercent,
+    uploadProgress,
+    validationProblems,
     result,
 
     // Actions